@@ -0,0 +1,58 @@
+import { AppState } from "react-native";
+import * as Notifications from "expo-notifications";
+
+/** A bell or OSC 9/777 notification from one of the sessions. */
+export interface TerminalNotification {
+  sessionId: string;
+  sessionName: string;
+  kind: "bell" | "notify";
+  title?: string;
+  text: string;
+}
+
+// Show banners while the app is open too; the caller already skips the session on screen
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let permission: Promise<boolean> | null = null;
+
+/** Ask once per launch; later calls reuse the answer. */
+export function requestNotificationPermission(): Promise<boolean> {
+  if (!permission) {
+    permission = Notifications.getPermissionsAsync()
+      .then((current) =>
+        current.granted || !current.canAskAgain
+          ? current
+          : Notifications.requestPermissionsAsync()
+      )
+      .then((result) => result.granted)
+      .catch(() => false);
+  }
+  return permission;
+}
+
+/**
+ * Post a local notification, unless it is about the session the user is
+ * looking at right now.
+ */
+export async function showTerminalNotification(
+  n: TerminalNotification,
+  attachedSession: string | null
+): Promise<void> {
+  if (AppState.currentState === "active" && n.sessionId === attachedSession) return;
+  if (!(await requestNotificationPermission())) return;
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: n.title || (n.kind === "bell" ? `Bell in ${n.sessionName}` : n.sessionName),
+      body: n.kind === "bell" ? null : n.text,
+      data: { sessionId: n.sessionId },
+    },
+    trigger: null,
+  });
+}
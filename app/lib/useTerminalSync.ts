@@ -1,4 +1,17 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import Constants from "expo-constants";
+import {
+  requestNotificationPermission,
+  showTerminalNotification,
+  type TerminalNotification,
+} from "./notifications";
+
+export interface PresenceClient {
+  clientId: string;
+  name: string;
+  device: string;
+  readOnly: boolean;
+}
 
 export interface SessionInfo {
   id: string;
@@ -6,6 +19,7 @@ export interface SessionInfo {
   status: "running" | "exited";
   attachedClients: number;
   source: "managed" | "tmux";
+  clients?: PresenceClient[];
 }
 
 interface ServerMessage {
@@ -33,6 +47,11 @@ export function useTerminalSync() {
   const [attachedSession, setAttachedSession] = useState<string | null>(null);
   const [terminalOutput, setTerminalOutput] = useState("");
   const outputRef = useRef("");
+  const attachedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    attachedRef.current = attachedSession;
+  }, [attachedSession]);
 
   const appendOutput = useCallback((text: string) => {
     outputRef.current += text;
@@ -68,7 +87,15 @@ export function useTerminalSync() {
     ws.onopen = () => {
       console.log("[TS] WS onopen fired");
       setStatus("connected");
-      send({ type: "list_sessions", seq: nextSeq(), payload: {} });
+      send({
+        type: "identify",
+        seq: nextSeq(),
+        payload: { name: Constants.deviceName ?? "Phone", device: "mobile" },
+      });
+      // The server pushes session changes from here on
+      send({ type: "subscribe_sessions", seq: nextSeq(), payload: {} });
+      // Ask up front so the first bell is not lost to the permission prompt
+      requestNotificationPermission();
     };
 
     ws.onmessage = (event) => {
@@ -87,6 +114,46 @@ export function useTerminalSync() {
                   (msg.payload as { sessions: SessionInfo[] }).sessions
                 );
                 break;
+              case "session_added":
+              case "session_updated": {
+                const { session } = msg.payload as { session: SessionInfo };
+                setSessions((prev) =>
+                  prev.some((s) => s.id === session.id)
+                    ? prev.map((s) => (s.id === session.id ? session : s))
+                    : [...prev, session]
+                );
+                break;
+              }
+              case "session_removed": {
+                const { id } = msg.payload as { id: string };
+                setSessions((prev) => prev.filter((s) => s.id !== id));
+                break;
+              }
+              case "session_renamed": {
+                // tmux renames change the session id as well
+                const { id, newId, name } = msg.payload as {
+                  id: string;
+                  newId: string;
+                  name: string;
+                };
+                setSessions((prev) =>
+                  prev.map((s) => (s.id === id ? { ...s, id: newId, name } : s))
+                );
+                setAttachedSession((cur) => (cur === id ? newId : cur));
+                break;
+              }
+              case "presence": {
+                const { id, clients } = msg.payload as {
+                  id: string;
+                  clients: PresenceClient[];
+                };
+                setSessions((prev) =>
+                  prev.map((s) =>
+                    s.id === id ? { ...s, clients, attachedClients: clients.length } : s
+                  )
+                );
+                break;
+              }
               case "attached":
                 setAttachedSession(
                   (msg.payload as { target: string }).target
@@ -95,6 +162,17 @@ export function useTerminalSync() {
               case "detached":
                 setAttachedSession(null);
                 break;
+              case "resync":
+                // We fell behind; a snapshot of the current screen follows
+                outputRef.current = "";
+                setTerminalOutput("");
+                break;
+              case "notification":
+                showTerminalNotification(
+                  msg.payload as unknown as TerminalNotification,
+                  attachedRef.current
+                ).catch((e) => console.warn(`[TS] notification failed: ${e}`));
+                break;
               case "error":
                 console.error(`[TS] ERROR: ${(msg.payload as { message: string }).message}`);
                 break;
@@ -179,12 +257,23 @@ export function useTerminalSync() {
     [send]
   );
 
-  // Auto-refresh session list
-  useEffect(() => {
-    if (status !== "connected" || attachedSession) return;
-    const interval = setInterval(listSessions, 3000);
-    return () => clearInterval(interval);
-  }, [status, attachedSession, listSessions]);
+  const killSession = useCallback(
+    (sessionId: string) => {
+      send({ type: "kill_session", seq: nextSeq(), payload: { target: sessionId } });
+    },
+    [send]
+  );
+
+  const renameSession = useCallback(
+    (sessionId: string, name: string) => {
+      send({
+        type: "rename_session",
+        seq: nextSeq(),
+        payload: { target: sessionId, name },
+      });
+    },
+    [send]
+  );
 
   return {
     status,
@@ -198,5 +287,7 @@ export function useTerminalSync() {
     resize,
     detach,
     sendInput,
+    killSession,
+    renameSession,
   };
 }
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync, appendFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { AuditLog, readAuditLog, redactInput } from "../session/audit-log.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "terminalsync-audit-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const client = { clientId: "c1", label: "laptop", address: "10.0.0.2" };
+
+describe("redactInput", () => {
+  it("keeps input as typed with none", () => {
+    expect(redactInput("ls -la\r", "none")).toBe("ls -la\r");
+  });
+
+  it("masks printable characters but keeps control keys and escape sequences with keys", () => {
+    expect(redactInput("hunter2\r", "keys")).toBe("*******\r");
+    expect(redactInput("\x1b[A\x03é", "keys")).toBe("\x1b[A\x03*");
+    expect(redactInput("\x1b[200~pasted\x1b[201~", "keys")).toBe("\x1b[200~******\x1b[201~");
+  });
+
+  it("drops input entirely with all", () => {
+    expect(redactInput("secret", "all")).toBeUndefined();
+  });
+});
+
+describe("AuditLog", () => {
+  it("appends one redacted JSON record per line to a private file", () => {
+    const file = join(dir, "nested", "audit.jsonl");
+    const log = new AuditLog({ file, redact: "all" });
+    log.write({ ...client, event: "attach", sessionId: "s1" });
+    log.write({ ...client, event: "input", sessionId: "s1", data: "pässword\r" });
+    log.close();
+
+    const lines = readFileSync(file, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ ...client, event: "attach", sessionId: "s1" });
+    expect(Date.parse(lines[0].time)).not.toBeNaN();
+    expect(lines[1]).toMatchObject({ event: "input", bytes: 10 });
+    expect(lines[1]).not.toHaveProperty("data");
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it("ignores writes after close", () => {
+    const file = join(dir, "audit.jsonl");
+    const log = new AuditLog({ file, redact: "none" });
+    log.close();
+    log.write({ ...client, event: "kill", sessionId: "s1" });
+    expect(readFileSync(file, "utf-8")).toBe("");
+  });
+});
+
+describe("readAuditLog", () => {
+  it("filters by session and time range, skipping torn lines", () => {
+    const file = join(dir, "audit.jsonl");
+    const record = (time: string, sessionId: string) =>
+      JSON.stringify({ ...client, time, event: "input", sessionId, data: "x" }) + "\n";
+    appendFileSync(file, record("2025-01-01T10:00:00.000Z", "a"));
+    appendFileSync(file, record("2025-01-01T11:00:00.000Z", "b"));
+    appendFileSync(file, record("2025-01-01T12:00:00.000Z", "a"));
+    appendFileSync(file, '{"time":"2025-01-01T13:00');
+
+    expect(readAuditLog(file)).toHaveLength(3);
+    expect(readAuditLog(file, { sessionId: "a" }).map((r) => r.time)).toEqual([
+      "2025-01-01T10:00:00.000Z",
+      "2025-01-01T12:00:00.000Z",
+    ]);
+    const range = readAuditLog(file, {
+      since: Date.parse("2025-01-01T10:30:00Z"),
+      until: Date.parse("2025-01-01T11:30:00Z"),
+    });
+    expect(range.map((r) => r.sessionId)).toEqual(["b"]);
+  });
+
+  it("returns nothing for a missing file", () => {
+    expect(readAuditLog(join(dir, "missing.jsonl"))).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { WebSocket } from "ws";
+import { ClientSession } from "../session/client-session.js";
+import { ManagedSessionStore } from "../session/managed-session-store.js";
+import type { ManagedSession } from "../session/managed-session.js";
+import { TmuxProvider } from "../tmux/tmux-provider.js";
+import { AuditLog } from "../session/audit-log.js";
+import { testConfig } from "./test-config.js";
+
+const MAX_BUFFERED = 4096;
+
+const config = testConfig({ maxBufferedBytes: MAX_BUFFERED });
+
+/** Just enough of a WebSocket to drive a ClientSession; the test sets `bufferedAmount`. */
+class FakeSocket extends EventEmitter {
+  readonly OPEN = 1;
+  readyState = 1;
+  bufferedAmount = 0;
+  sent: Array<{ data: string | Buffer; binary: boolean }> = [];
+
+  send(data: string | Buffer, opts?: { binary?: boolean }): void {
+    this.sent.push({ data, binary: opts?.binary === true });
+  }
+
+  receive(msg: Record<string, unknown>): void {
+    this.emit("message", Buffer.from(JSON.stringify({ seq: 1, ...msg })), false);
+  }
+
+  json(): Array<{ type: string; payload: any }> {
+    return this.sent.filter((f) => !f.binary).map((f) => JSON.parse(f.data.toString()));
+  }
+
+  /** Terminal output sent, optionally only after the first message of `type`. */
+  output(after?: string): string {
+    const start = after
+      ? this.sent.findIndex((f) => !f.binary && JSON.parse(f.data.toString()).type === after)
+      : -1;
+    return this.sent
+      .slice(start + 1)
+      .filter((f) => f.binary)
+      .map((f) => f.data.toString())
+      .join("");
+  }
+}
+
+const stores: ManagedSessionStore[] = [];
+
+async function waitUntil(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out");
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+function createSession() {
+  const store = new ManagedSessionStore();
+  stores.push(store);
+  const session = store.create({ name: "slow", shell: "/bin/sh", cols: 80, rows: 24 });
+  return { store, session };
+}
+
+/** A client attached to the session, over a fake socket. */
+async function attachClient(
+  store: ManagedSessionStore,
+  session: ManagedSession,
+  audit: AuditLog | null = null,
+) {
+  const ws = new FakeSocket();
+  const client = new ClientSession(
+    ws as unknown as WebSocket,
+    { scope: "full", label: "test" },
+    "127.0.0.1",
+    config,
+    store,
+    new TmuxProvider(),
+    { broadcast() {}, subscribeSessions() {} },
+    audit,
+  );
+  ws.receive({ type: "attach", payload: { target: session.id, cols: 80, rows: 24 } });
+  await waitUntil(() => ws.json().some((m) => m.type === "attached"));
+  return { ws, client };
+}
+
+afterEach(() => {
+  for (const store of stores) store.shutdown();
+  stores.length = 0;
+});
+
+describe("ClientSession backpressure", () => {
+  it("streams output while the socket keeps up", async () => {
+    const { store, session } = createSession();
+    const { ws, client } = await attachClient(store, session);
+    session.write("echo fast-$((40+2))\r");
+    await waitUntil(() => ws.output().includes("fast-42"));
+    client.cleanup();
+  });
+
+  it("holds back output from a backed-up client, then resyncs it", async () => {
+    const { store, session } = createSession();
+    const { ws, client } = await attachClient(store, session);
+    ws.bufferedAmount = MAX_BUFFERED + 1;
+    const before = ws.sent.length;
+
+    session.write("echo missed-$((40+2))\r");
+    await waitUntil(() => session.getBufferedOutput().includes("missed-42"));
+    await new Promise((r) => setTimeout(r, 150));
+    expect(ws.sent.length).toBe(before);
+
+    // Drained: the client gets a resync and a snapshot with what it missed
+    ws.bufferedAmount = 0;
+    await waitUntil(() => ws.json().some((m) => m.type === "resync"));
+    const resync = ws.json().find((m) => m.type === "resync")!;
+    const snapshot = ws.output("resync");
+    expect(snapshot).toContain("missed-42");
+    expect(resync.payload.offset + Buffer.byteLength(snapshot)).toBe(session.getOutputOffset());
+
+    // And streams live again
+    session.write("echo live-$((40+2))\r");
+    await waitUntil(() => ws.output().includes("live-42"));
+    client.cleanup();
+  });
+
+  it("keeps streaming to other clients while one is stalled", async () => {
+    const { store, session } = createSession();
+    const { ws: slow, client: slowClient } = await attachClient(store, session);
+    const { ws: fast, client: fastClient } = await attachClient(store, session);
+
+    slow.bufferedAmount = MAX_BUFFERED * 10;
+    session.write("echo shared-$((40+2))\r");
+    await waitUntil(() => fast.output().includes("shared-42"));
+    expect(slow.output()).not.toContain("shared-42");
+
+    slowClient.cleanup();
+    fastClient.cleanup();
+  });
+});
+
+describe("ClientSession audit log", () => {
+  it("records who attached, what they typed and when they left", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "terminalsync-audit-"));
+    const file = join(dir, "audit.jsonl");
+    const audit = new AuditLog({ file, redact: "none" });
+    const { store, session } = createSession();
+    const { ws, client } = await attachClient(store, session, audit);
+
+    ws.receive({ type: "input", payload: { data: "whoami\r" } });
+    ws.receive({ type: "detach", payload: {} });
+    client.cleanup();
+    audit.close();
+
+    const records = readFileSync(file, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(records.map((r) => r.event)).toEqual(["attach", "input", "detach"]);
+    expect(records[1]).toMatchObject({
+      clientId: client.id,
+      label: "test",
+      address: "127.0.0.1",
+      sessionId: session.id,
+      data: "whoami\r",
+      bytes: 7,
+    });
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import xtermHeadless from "@xterm/headless";
+import { CommandHistory, type CommandMark } from "../session/command-history.js";
+
+const { Terminal } = xtermHeadless;
+
+function createHistory(limit?: number) {
+  const terminal = new Terminal({ cols: 40, rows: 10, allowProposedApi: true });
+  const history = new CommandHistory(terminal, limit);
+  let offset = 0;
+  const write = (data: string) =>
+    new Promise<void>((resolve) => {
+      offset += Buffer.byteLength(data);
+      terminal.write(data, resolve);
+    });
+  const mark = (kind: CommandMark, params = "") => history.mark(kind, params, offset, "/work");
+  // A whole prompt → command → output → exit cycle, as bash with OSC 133 would print it
+  const run = async (command: string, output: string, exitCode: number) => {
+    mark("A");
+    await write("$ ");
+    mark("B");
+    await write(`${command}\r\n`);
+    mark("C");
+    await write(output);
+    mark("D", String(exitCode));
+  };
+  return { terminal, history, write, mark, run };
+}
+
+describe("CommandHistory", () => {
+  it("records the command line, exit code and output range", async () => {
+    const { history, run } = createHistory();
+    await run("cargo build", "error[E0425]\r\n", 101);
+
+    const [cmd] = history.list();
+    expect(cmd).toMatchObject({
+      id: 1,
+      command: "cargo build",
+      cwd: "/work",
+      exitCode: 101,
+      outputStart: 15,
+      outputEnd: 29,
+    });
+    expect(cmd.finishedAt).toBeGreaterThanOrEqual(cmd.startedAt);
+  });
+
+  it("reports a running command without an end", async () => {
+    const { history, mark, write } = createHistory();
+    mark("A");
+    await write("$ ");
+    mark("B");
+    await write("sleep 100\r\n");
+    mark("C");
+
+    const [cmd] = history.list();
+    expect(cmd.command).toBe("sleep 100");
+    expect(cmd.finishedAt).toBeUndefined();
+    expect(cmd.exitCode).toBeUndefined();
+  });
+
+  it("joins command lines the terminal wrapped", async () => {
+    const { history, run } = createHistory();
+    const long = "echo " + "x".repeat(50);
+    await run(long, "", 0);
+    expect(history.list()[0].command).toBe(long);
+  });
+
+  it("ignores prompts where nothing ran", async () => {
+    const { history, mark, write } = createHistory();
+    mark("A");
+    await write("$ ");
+    mark("B");
+    await write("\r\n");
+    mark("D", "0");
+    expect(history.list()).toEqual([]);
+  });
+
+  it("counts lines back from the cursor to each prompt", async () => {
+    const { history, run, write } = createHistory();
+    await run("first", "one\r\ntwo\r\n", 0);
+    await run("second", "three\r\n", 0);
+    await write("$ ");
+
+    const [first, second] = history.list();
+    expect(first.linesBack).toBe(5);
+    expect(second.linesBack).toBe(2);
+  });
+
+  it("keeps only the newest commands", async () => {
+    const { history, run } = createHistory(2);
+    await run("a", "", 0);
+    await run("b", "", 0);
+    await run("c", "", 0);
+    expect(history.list().map((c) => [c.id, c.command])).toEqual([
+      [2, "b"],
+      [3, "c"],
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { filterEnv, parseDenylist, DEFAULT_ENV_DENYLIST } from "../cli/env-filter.js";
+
+describe("filterEnv", () => {
+  it("keeps ordinary variables such as PATH and VIRTUAL_ENV", () => {
+    const { env, redacted } = filterEnv(
+      { PATH: "/venv/bin:/usr/bin", VIRTUAL_ENV: "/venv", HOME: "/home/me" },
+      DEFAULT_ENV_DENYLIST,
+    );
+    expect(env).toEqual({ PATH: "/venv/bin:/usr/bin", VIRTUAL_ENV: "/venv", HOME: "/home/me" });
+    expect(redacted).toEqual([]);
+  });
+
+  it("redacts secret-looking names regardless of case", () => {
+    const { env, redacted } = filterEnv(
+      {
+        GITHUB_TOKEN: "x",
+        aws_secret_access_key: "x",
+        PGPASSWORD: "x",
+        OPENAI_API_KEY: "x",
+        DATABASE_URL: "x",
+        EDITOR: "vim",
+      },
+      DEFAULT_ENV_DENYLIST,
+    );
+    expect(env).toEqual({ EDITOR: "vim" });
+    expect(redacted).toEqual([
+      "DATABASE_URL",
+      "GITHUB_TOKEN",
+      "OPENAI_API_KEY",
+      "PGPASSWORD",
+      "aws_secret_access_key",
+    ]);
+  });
+
+  it("drops names the server never accepts", () => {
+    const { env, redacted } = filterEnv(
+      {
+        TERMINALSYNC_PORT: "8089",
+        LD_LIBRARY_PATH: "/lib",
+        "BASH_FUNC_foo%%": "() { :; }",
+        LANG: "C",
+      },
+      DEFAULT_ENV_DENYLIST,
+    );
+    expect(env).toEqual({ LANG: "C" });
+    expect(redacted).toEqual([]);
+  });
+
+  it("uses a configured deny-list instead of the defaults", () => {
+    const denylist = parseDenylist(" MY_*, exact ");
+    expect(denylist).toEqual(["MY_*", "exact"]);
+
+    const { env, redacted } = filterEnv(
+      { MY_VAR: "1", EXACT: "2", EXACTLY: "3", GITHUB_TOKEN: "4" },
+      denylist,
+    );
+    expect(redacted).toEqual(["EXACT", "MY_VAR"]);
+    expect(env).toEqual({ EXACTLY: "3", GITHUB_TOKEN: "4" });
+  });
+
+  it("treats regex characters in patterns literally", () => {
+    const { redacted } = filterEnv({ A_B: "1", AXB: "2" }, ["A.B"]);
+    expect(redacted).toEqual([]);
+  });
+
+  it("falls back to the defaults when unset", () => {
+    expect(parseDenylist(undefined)).toBe(DEFAULT_ENV_DENYLIST);
+    expect(parseDenylist("")).toEqual([]);
+  });
+});
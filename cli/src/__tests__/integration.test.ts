@@ -1,57 +1,58 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { createServer, type Server as HttpServer } from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
+import { mkdtempSync, rmSync, realpathSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { ManagedSessionStore } from "../session/managed-session-store.js";
 import { TmuxProvider } from "../tmux/tmux-provider.js";
 import { SessionManager } from "../session/session-manager.js";
-import type { Config } from "../config.js";
+import { authenticate, extractToken, originAllowed } from "../server/auth.js";
+import { TokenRegistry } from "../server/token-registry.js";
+import { perMessageDeflate, type Config } from "../config.js";
 import type { ServerMessage } from "../protocol/messages.js";
+import { TEST_TOKEN, VIEW_TOKEN, testConfig } from "./test-config.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-const TEST_TOKEN = "test-token-12345";
-
-function testConfig(overrides?: Partial<Config>): Config {
-  return {
-    port: 0,
-    host: "127.0.0.1",
-    authToken: TEST_TOKEN,
-    maxClients: 10,
-    defaultScrollbackLines: 100,
-    defaultShell: process.env.SHELL ?? "/bin/sh",
-    tunnel: false,
-    ...overrides,
-  };
-}
-
 function startTestServer(config: Config): Promise<{
   httpServer: HttpServer;
   wss: WebSocketServer;
   manager: SessionManager;
   store: ManagedSessionStore;
+  registry: TokenRegistry;
   port: number;
   close: () => void;
 }> {
   return new Promise((resolve) => {
+    const registryDir = mkdtempSync(join(tmpdir(), "terminalsync-test-"));
+    const registry = new TokenRegistry(join(registryDir, "tokens.json"));
     const store = new ManagedSessionStore();
     const tmux = new TmuxProvider();
     const manager = new SessionManager(config, store, tmux);
 
     const httpServer = createServer();
-    const wss = new WebSocketServer({ noServer: true });
+    const wss = new WebSocketServer({
+      noServer: true,
+      perMessageDeflate: perMessageDeflate(config),
+    });
 
     httpServer.on("upgrade", (req, socket, head) => {
-      const url = new URL(req.url ?? "/", `http://localhost`);
-      const token = url.searchParams.get("token");
-      if (token !== config.authToken) {
+      if (!originAllowed(req)) {
+        socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      const grant = authenticate(extractToken(req), config, registry);
+      if (!grant) {
         socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
         socket.destroy();
         return;
       }
       wss.handleUpgrade(req, socket, head, (ws) => {
-        manager.addClient(ws);
+        manager.addClient(ws, grant, req.socket.remoteAddress ?? "unknown");
       });
     });
 
@@ -63,21 +64,23 @@ function startTestServer(config: Config): Promise<{
         wss,
         manager,
         store,
+        registry,
         port,
         close() {
           manager.shutdown();
           wss.close();
           httpServer.close();
+          rmSync(registryDir, { recursive: true, force: true });
         },
       });
     });
   });
 }
 
-function connectClient(port: number): Promise<WebSocket> {
+function connectClient(port: number, token = TEST_TOKEN): Promise<WebSocket> {
   return new Promise((resolve, reject) => {
     const ws = new WebSocket(
-      `ws://127.0.0.1:${port}?token=${TEST_TOKEN}`,
+      `ws://127.0.0.1:${port}?token=${token}`,
     );
     ws.on("open", () => resolve(ws));
     ws.on("error", reject);
@@ -147,7 +150,9 @@ function collectMessages(
 let server: Awaited<ReturnType<typeof startTestServer>>;
 
 beforeAll(async () => {
-  server = await startTestServer(testConfig());
+  server = await startTestServer(
+    testConfig({ defaultShell: process.env.SHELL ?? "/bin/sh", outputBatchMs: 8, compression: true }),
+  );
 });
 
 afterAll(() => {
@@ -161,6 +166,20 @@ describe("connection & auth", () => {
     ws.close();
   });
 
+  it("rejects upgrades from other origins", async () => {
+    const opened = (origin: string) =>
+      new Promise<boolean>((resolve) => {
+        const ws = new WebSocket(`ws://127.0.0.1:${server.port}?token=${TEST_TOKEN}`, { origin });
+        ws.on("open", () => {
+          ws.close();
+          resolve(true);
+        });
+        ws.on("error", () => resolve(false));
+      });
+    expect(await opened(`http://127.0.0.1:${server.port}`)).toBe(true);
+    expect(await opened("https://evil.example")).toBe(false);
+  });
+
   it("rejects invalid token", async () => {
     const ws = new WebSocket(
       `ws://127.0.0.1:${server.port}?token=bad-token`,
@@ -542,6 +561,583 @@ describe("resize: host dictates size", () => {
   });
 });
 
+describe("resize policies", () => {
+  async function createShared(
+    policy?: string,
+  ): Promise<{ host: WebSocket; sessionId: string }> {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: `policy-${policy ?? "default"}`, cols: 100, rows: 30, resizePolicy: policy },
+    });
+    const created = await waitForMsg(host, "session_created");
+    const sessionId = (created.payload as any).id;
+    send(host, {
+      type: "attach",
+      seq: 2,
+      payload: { target: sessionId, cols: 100, rows: 30 },
+    });
+    await waitForMsg(host, "attached");
+    return { host, sessionId };
+  }
+
+  it("host policy ignores other clients' resizes", async () => {
+    const { host, sessionId } = await createShared("host");
+
+    const guest = await connectClient(server.port);
+    send(guest, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 40, rows: 10 },
+    });
+    await waitForMsg(guest, "attached");
+
+    const msgs = collectMessages(host, 300);
+    send(guest, { type: "resize", seq: 2, payload: { cols: 50, rows: 12 } });
+    expect((await msgs).filter((m) => m.type === "resized")).toHaveLength(0);
+
+    const session = server.store.get(sessionId);
+    expect(session?.cols).toBe(100);
+    expect(session?.rows).toBe(30);
+
+    host.close();
+    guest.close();
+  });
+
+  it("smallest policy fits every client and grows back when one leaves", async () => {
+    const { host, sessionId } = await createShared("smallest");
+
+    const phone = await connectClient(server.port);
+    const shrunk = waitForMsg(host, "resized");
+    send(phone, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 50, rows: 40 },
+    });
+    await waitForMsg(phone, "attached");
+    // Each dimension is the smallest any client asked for
+    expect((await shrunk).payload).toMatchObject({ cols: 50, rows: 30 });
+
+    const grown = waitForMsg(host, "resized");
+    send(phone, { type: "detach", seq: 2, payload: {} });
+    expect((await grown).payload).toMatchObject({ cols: 100, rows: 30 });
+
+    host.close();
+    phone.close();
+  });
+
+  it("ignores view-only clients when sizing", async () => {
+    const { host, sessionId } = await createShared("smallest");
+
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    const msgs = collectMessages(host, 300);
+    send(viewer, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 20, rows: 5 },
+    });
+    await waitForMsg(viewer, "attached");
+    expect((await msgs).filter((m) => m.type === "resized")).toHaveLength(0);
+
+    host.close();
+    viewer.close();
+  });
+
+  it("largest policy follows the biggest client", async () => {
+    const { host, sessionId } = await createShared("largest");
+
+    const monitor = await connectClient(server.port);
+    send(monitor, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 80, rows: 24 },
+    });
+    await waitForMsg(monitor, "attached");
+
+    const resized = waitForMsg(host, "resized");
+    send(monitor, { type: "resize", seq: 2, payload: { cols: 200, rows: 50 } });
+    expect((await resized).payload).toMatchObject({ cols: 200, rows: 50 });
+
+    host.close();
+    monitor.close();
+  });
+
+  it("last-writer policy follows whoever typed last", async () => {
+    const { host, sessionId } = await createShared("last-writer");
+
+    const guest = await connectClient(server.port);
+    send(guest, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 60, rows: 20 },
+    });
+    await waitForMsg(guest, "attached");
+
+    let resized = waitForMsg(guest, "resized");
+    send(guest, { type: "input", seq: 2, payload: { data: "\n" } });
+    expect((await resized).payload).toMatchObject({ cols: 60, rows: 20 });
+
+    resized = waitForMsg(guest, "resized");
+    send(host, { type: "input", seq: 3, payload: { data: "\n" } });
+    expect((await resized).payload).toMatchObject({ cols: 100, rows: 30 });
+
+    host.close();
+    guest.close();
+  });
+
+  it("changes policy at runtime and tells every client", async () => {
+    const { host, sessionId } = await createShared();
+
+    const guest = await connectClient(server.port);
+    send(guest, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 70, rows: 20 },
+    });
+    await waitForMsg(guest, "attached");
+    expect(server.store.get(sessionId)?.resizePolicy).toBe("host");
+
+    const changed = waitForMsg(guest, "resize_policy_changed");
+    const resized = waitForMsg(guest, "resized");
+    send(host, {
+      type: "set_resize_policy",
+      seq: 3,
+      payload: { target: sessionId, policy: "smallest" },
+    });
+    expect((await changed).payload).toEqual({ id: sessionId, policy: "smallest" });
+    expect((await resized).payload).toMatchObject({ cols: 70, rows: 20 });
+
+    send(host, { type: "list_sessions", seq: 4, payload: {} });
+    const list = await waitForMsg(host, "session_list");
+    const info = (list.payload as any).sessions.find((s: any) => s.id === sessionId);
+    expect(info.resizePolicy).toBe("smallest");
+
+    host.close();
+    guest.close();
+  });
+
+  it("rejects unknown policies and view-only changes", async () => {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "bad-policy", cols: 80, rows: 24, resizePolicy: "widest" },
+    });
+    const err = await waitForMsg(host, "error");
+    expect((err.payload as any).code).toBe("INVALID_POLICY");
+
+    const { host: owner, sessionId } = await createShared();
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    send(viewer, {
+      type: "set_resize_policy",
+      seq: 1,
+      payload: { target: sessionId, policy: "largest" },
+    });
+    const viewErr = await waitForMsg(viewer, "error");
+    expect((viewErr.payload as any).code).toBe("READ_ONLY");
+
+    host.close();
+    owner.close();
+    viewer.close();
+  });
+});
+
+describe("single-writer control", () => {
+  async function createControlled(): Promise<{
+    host: WebSocket;
+    guest: WebSocket;
+    hostId: string;
+    guestId: string;
+    sessionId: string;
+  }> {
+    const host = await connectClient(server.port);
+    const created = waitForMsg(host, "session_created");
+    const attached = waitForMsg(host, "attached");
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "single-writer", cols: 80, rows: 24, singleWriter: true, attach: true },
+    });
+    const sessionId = ((await created).payload as any).id;
+    const hostAttached = await attached;
+
+    const guest = await connectClient(server.port);
+    send(guest, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 0, rows: 0 },
+    });
+    const guestAttached = await waitForMsg(guest, "attached");
+    return {
+      host,
+      guest,
+      hostId: (hostAttached.payload as any).clientId,
+      guestId: (guestAttached.payload as any).clientId,
+      sessionId,
+    };
+  }
+
+  it("starts with the host in control and rejects others' input", async () => {
+    const host = await connectClient(server.port);
+    const created = waitForMsg(host, "session_created");
+    const attached = waitForMsg(host, "attached");
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "single-writer", cols: 80, rows: 24, singleWriter: true, attach: true },
+    });
+    const sessionId = ((await created).payload as any).id;
+    const hostAttached = (await attached).payload as any;
+    expect(hostAttached.singleWriter).toBe(true);
+    expect(hostAttached.controller).toBe(hostAttached.clientId);
+
+    const guest = await connectClient(server.port);
+    send(guest, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 0, rows: 0 },
+    });
+    const guestAttached = (await waitForMsg(guest, "attached")).payload as any;
+    expect(guestAttached.controller).toBe(hostAttached.clientId);
+
+    send(guest, { type: "input", seq: 2, payload: { data: "echo hi\n" } });
+    const err = await waitForMsg(guest, "error");
+    expect((err.payload as any).code).toBe("NOT_CONTROLLER");
+
+    host.close();
+    guest.close();
+  });
+
+  it("hands control over when the holder grants a request", async () => {
+    const { host, guest, hostId, guestId } = await createControlled();
+
+    const requested = waitForMsg(host, "control_requested");
+    send(guest, { type: "request_control", seq: 2, payload: {} });
+    expect((await requested).payload).toEqual({ clientId: guestId });
+
+    const hostChanged = waitForMsg(host, "control_changed");
+    const guestChanged = waitForMsg(guest, "control_changed");
+    send(host, { type: "grant_control", seq: 3, payload: { clientId: guestId } });
+    expect((await hostChanged).payload).toEqual({ singleWriter: true, controller: guestId });
+    expect((await guestChanged).payload).toEqual({ singleWriter: true, controller: guestId });
+
+    send(host, { type: "input", seq: 4, payload: { data: "x" } });
+    expect(((await waitForMsg(host, "error")).payload as any).code).toBe("NOT_CONTROLLER");
+
+    // The host can still take it back
+    const back = waitForMsg(guest, "control_changed");
+    send(host, { type: "grant_control", seq: 5, payload: { clientId: hostId } });
+    expect(((await back).payload as any).controller).toBe(hostId);
+
+    host.close();
+    guest.close();
+  });
+
+  it("tells the requester when a request is denied", async () => {
+    const { host, guest, guestId } = await createControlled();
+
+    const requested = waitForMsg(host, "control_requested");
+    send(guest, { type: "request_control", seq: 2, payload: {} });
+    await requested;
+
+    const denied = waitForMsg(guest, "control_denied");
+    send(host, { type: "deny_control", seq: 3, payload: { clientId: guestId } });
+    await denied;
+
+    // Only the holder or host may answer
+    send(guest, { type: "grant_control", seq: 4, payload: { clientId: guestId } });
+    expect(((await waitForMsg(guest, "error")).payload as any).code).toBe("NOT_CONTROLLER");
+
+    host.close();
+    guest.close();
+  });
+
+  it("returns control to the host when the holder leaves", async () => {
+    const { host, guest, hostId, guestId } = await createControlled();
+
+    send(host, { type: "grant_control", seq: 2, payload: { clientId: guestId } });
+    await waitForMsg(host, "control_changed");
+
+    const changed = waitForMsg(host, "control_changed");
+    send(guest, { type: "detach", seq: 3, payload: {} });
+    expect(((await changed).payload as any).controller).toBe(hostId);
+
+    host.close();
+    guest.close();
+  });
+
+  it("turns single-writer mode off for everyone", async () => {
+    const { host, guest } = await createControlled();
+
+    // A client without control cannot switch the mode off
+    send(guest, { type: "set_single_writer", seq: 2, payload: { enabled: false } });
+    expect(((await waitForMsg(guest, "error")).payload as any).code).toBe("NOT_CONTROLLER");
+
+    const changed = waitForMsg(guest, "control_changed");
+    send(host, { type: "set_single_writer", seq: 3, payload: { enabled: false } });
+    expect((await changed).payload).toEqual({ singleWriter: false, controller: null });
+
+    const marker = `SHARED_${Date.now()}`;
+    const output = new Promise<void>((resolve) => {
+      let collected = "";
+      guest.on("message", (data: Buffer, isBinary: boolean) => {
+        if (!isBinary) return;
+        collected += data.toString();
+        if (collected.includes(marker)) resolve();
+      });
+    });
+    send(guest, { type: "input", seq: 4, payload: { data: `echo ${marker}\n` } });
+    await output;
+
+    host.close();
+    guest.close();
+  });
+});
+
+describe("presence", () => {
+  it("announces who joins and leaves a session", async () => {
+    const host = await connectClient(server.port);
+    send(host, { type: "identify", seq: 1, payload: { name: "Ada", device: "cli" } });
+    send(host, {
+      type: "create_session",
+      seq: 2,
+      payload: { name: "presence", cols: 80, rows: 24 },
+    });
+    const sessionId = ((await waitForMsg(host, "session_created")).payload as any).id;
+    // The host hears about its own arrival too
+    const selfJoined = waitForMsg(host, "presence");
+    send(host, {
+      type: "attach",
+      seq: 3,
+      payload: { target: sessionId, cols: 80, rows: 24 },
+    });
+    await selfJoined;
+
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    // Control characters are stripped from names
+    send(viewer, {
+      type: "identify",
+      seq: 1,
+      payload: { name: " Grace\x1b[2J ", device: "mobile" },
+    });
+    const joined = waitForMsg(host, "presence");
+    send(viewer, {
+      type: "attach",
+      seq: 2,
+      payload: { target: sessionId, cols: 0, rows: 0 },
+    });
+    const presence = (await joined).payload as any;
+    expect(presence.id).toBe(sessionId);
+    expect(presence.joined).toMatchObject({ name: "Grace[2J", device: "mobile", readOnly: true });
+    expect(presence.clients.map((c: any) => c.name)).toEqual(["Ada", "Grace[2J"]);
+
+    send(host, { type: "list_sessions", seq: 4, payload: {} });
+    const list = await waitForMsg(host, "session_list");
+    const info = (list.payload as any).sessions.find((s: any) => s.id === sessionId);
+    expect(info.clients).toHaveLength(2);
+    expect(info.clients[0]).toMatchObject({ name: "Ada", device: "cli", readOnly: false });
+
+    const left = waitForMsg(host, "presence");
+    viewer.close();
+    const after = (await left).payload as any;
+    expect(after.left).toMatchObject({ name: "Grace[2J" });
+    expect(after.clients).toHaveLength(1);
+
+    host.close();
+  });
+
+  it("reports a new name to the session", async () => {
+    const host = await connectClient(server.port);
+    // Full-access clients also hear presence from other sessions, so keep
+    // every update and pick out this session's
+    const updates: any[] = [];
+    host.on("message", (data: Buffer, isBinary: boolean) => {
+      if (isBinary) return;
+      const msg = JSON.parse(data.toString());
+      if (msg.type === "presence") updates.push(msg.payload);
+    });
+    const nextUpdate = async (sessionId: string, seen: number) => {
+      for (let i = 0; i < 100; i++) {
+        const found = updates.slice(seen).find((p) => p.id === sessionId);
+        if (found) return found;
+        await new Promise((r) => setTimeout(r, 20));
+      }
+      throw new Error("Timeout waiting for presence");
+    };
+
+    const created = waitForMsg(host, "session_created");
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "presence-rename", cols: 80, rows: 24, attach: true },
+    });
+    const sessionId = ((await created).payload as any).id;
+    await nextUpdate(sessionId, 0);
+
+    const seen = updates.length;
+    send(host, { type: "identify", seq: 2, payload: { name: "Linus", device: "laptop" as any } });
+    const presence = await nextUpdate(sessionId, seen);
+    expect(presence.clients).toEqual([
+      expect.objectContaining({ name: "Linus", device: "unknown" }),
+    ]);
+
+    send(host, { type: "identify", seq: 3, payload: { name: "  ", device: "web" } });
+    expect(((await waitForMsg(host, "error")).payload as any).code).toBe("INVALID_NAME");
+
+    host.close();
+  });
+});
+
+describe("session list subscription", () => {
+  it("sends the list, then deltas as sessions change", async () => {
+    const watcher = await connectClient(server.port);
+    send(watcher, { type: "subscribe_sessions", seq: 1, payload: {} });
+    const list = await waitForMsg(watcher, "session_list");
+    expect(list.seq).toBe(1);
+
+    const host = await connectClient(server.port);
+    const added = waitForMsg(watcher, "session_added");
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "subscribed", cols: 80, rows: 24 },
+    });
+    const session = ((await added).payload as any).session;
+    expect(session).toMatchObject({ name: "subscribed", status: "running", attachedClients: 0 });
+
+    const updated = waitForMsg(watcher, "session_updated");
+    send(host, {
+      type: "attach",
+      seq: 2,
+      payload: { target: session.id, cols: 80, rows: 24 },
+    });
+    expect(((await updated).payload as any).session).toMatchObject({
+      id: session.id,
+      attachedClients: 1,
+    });
+
+    const removed = waitForMsg(watcher, "session_removed");
+    send(host, { type: "kill_session", seq: 3, payload: { target: session.id } });
+    expect((await removed).payload).toEqual({ id: session.id });
+
+    host.close();
+    watcher.close();
+  });
+
+  it("sends nothing until a client subscribes", async () => {
+    const bystander = await connectClient(server.port);
+    const msgs = collectMessages(bystander, 300);
+
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "unsubscribed", cols: 80, rows: 24 },
+    });
+    await waitForMsg(host, "session_created");
+
+    const types = (await msgs).map((m) => m.type);
+    expect(types).not.toContain("session_added");
+
+    host.close();
+    bystander.close();
+  });
+});
+
+describe("output throughput", () => {
+  const LINES = 5000;
+
+  /** Run a command printing LINES short lines; count frames and bytes received. */
+  async function floodOutput(port: number): Promise<{
+    frames: number;
+    bytes: number;
+    output: string;
+    ptyChunks: number;
+    deflate: boolean;
+    ms: number;
+  }> {
+    const ws = await connectClient(port);
+    const chunks: Buffer[] = [];
+    ws.on("message", (data: Buffer, isBinary: boolean) => {
+      if (isBinary) chunks.push(data);
+    });
+    const created = waitForMsg(ws, "session_created");
+    // The trailing sleep lets the PTY drain before the exit detaches us
+    const detached = waitForMsg(ws, "detached", 20000);
+    const start = Date.now();
+
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: {
+        name: "flood",
+        cols: 80,
+        rows: 24,
+        command: [
+          "/bin/sh",
+          "-c",
+          `i=0; while [ $i -lt ${LINES} ]; do echo "line $i"; i=$((i+1)); done; echo FLOOD-DONE; sleep 0.5`,
+        ],
+        attach: true,
+      },
+    });
+    const sessionId = ((await created).payload as any).id;
+    let ptyChunks = 0;
+    const target = port === server.port ? server : plain;
+    target.store.get(sessionId)?.on("data", () => ptyChunks++);
+    await detached;
+
+    const result = {
+      frames: chunks.length,
+      bytes: chunks.reduce((n, c) => n + c.length, 0),
+      output: Buffer.concat(chunks).toString(),
+      ptyChunks,
+      deflate: ws.extensions.includes("permessage-deflate"),
+      ms: Date.now() - start,
+    };
+    ws.close();
+    return result;
+  }
+
+  let plain: Awaited<ReturnType<typeof startTestServer>>;
+
+  beforeAll(async () => {
+    plain = await startTestServer(testConfig());
+  });
+
+  afterAll(() => {
+    plain.close();
+  });
+
+  it("coalesces output into fewer frames without losing any", async () => {
+    const batched = await floodOutput(server.port);
+    const unbatched = await floodOutput(plain.port);
+
+    for (const run of [batched, unbatched]) {
+      expect(run.output).toContain(`line ${LINES - 1}`);
+      expect(run.output).toContain("FLOOD-DONE");
+      // Output stays in order across frame boundaries
+      expect(run.output.indexOf("line 100\r\n")).toBeLessThan(run.output.indexOf("line 4000"));
+    }
+    // Without batching every PTY chunk is its own frame
+    expect(unbatched.frames).toBe(unbatched.ptyChunks);
+    expect(batched.frames).toBeLessThanOrEqual(batched.ptyChunks);
+    expect(batched.bytes / batched.frames).toBeGreaterThanOrEqual(
+      unbatched.bytes / unbatched.frames,
+    );
+  }, 30000);
+
+  it("negotiates permessage-deflate only when enabled", async () => {
+    const compressed = await connectClient(server.port);
+    expect(compressed.extensions).toContain("permessage-deflate");
+    const uncompressed = await connectClient(plain.port);
+    expect(uncompressed.extensions).toBe("");
+    compressed.close();
+    uncompressed.close();
+  });
+});
+
 describe("input / output via WebSocket", () => {
   it("input reaches PTY and output comes back", async () => {
     const ws = await connectClient(server.port);
@@ -587,4 +1183,685 @@ describe("input / output via WebSocket", () => {
 
     ws.close();
   });
+
+  it("rate-limits input messages and bytes", async () => {
+    const limited = await startTestServer(
+      testConfig({ inputRateMessages: 3, inputRateBytes: 64 }),
+    );
+    const ws = await connectClient(limited.port);
+    const created = waitForMsg(ws, "session_created");
+    const attached = waitForMsg(ws, "attached");
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "limited", cols: 80, rows: 24, attach: true },
+    });
+    await created;
+    await attached;
+
+    const errors = collectMessages(ws, 300);
+    for (let seq = 2; seq <= 5; seq++) {
+      send(ws, { type: "input", seq, payload: { data: "x" } });
+    }
+    const limitedSeqs = (await errors)
+      .filter((m) => m.type === "error" && (m.payload as any).code === "RATE_LIMITED")
+      .map((m) => m.seq);
+    expect(limitedSeqs).toEqual([5]);
+
+    // A burst of bytes is limited too, once the message allowance refills
+    await new Promise((r) => setTimeout(r, 1000));
+    send(ws, { type: "input", seq: 6, payload: { data: "y".repeat(100) } });
+    const err = await waitForMsg(ws, "error");
+    expect(err.seq).toBe(6);
+    expect((err.payload as any).code).toBe("RATE_LIMITED");
+
+    ws.close();
+    limited.close();
+  });
+});
+
+describe("view-only tokens", () => {
+  it("attached reports readOnly for each token kind", async () => {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "view-flag", cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(host, "session_created");
+    const sessionId = (created.payload as any).id;
+
+    send(host, {
+      type: "attach",
+      seq: 2,
+      payload: { target: sessionId, cols: 80, rows: 24 },
+    });
+    const hostAttached = await waitForMsg(host, "attached");
+    expect((hostAttached.payload as any).readOnly).toBe(false);
+
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    send(viewer, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 0, rows: 0 },
+    });
+    const viewerAttached = await waitForMsg(viewer, "attached");
+    expect((viewerAttached.payload as any).readOnly).toBe(true);
+
+    host.close();
+    viewer.close();
+  });
+
+  it("rejects input and resize from a view-only client", async () => {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "view-reject", cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(host, "session_created");
+    const sessionId = (created.payload as any).id;
+
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    send(viewer, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 0, rows: 0 },
+    });
+    await waitForMsg(viewer, "attached");
+
+    send(viewer, { type: "input", seq: 2, payload: { data: "echo hi\n" } });
+    const inputErr = await waitForMsg(viewer, "error");
+    expect((inputErr.payload as any).code).toBe("READ_ONLY");
+
+    send(viewer, { type: "resize", seq: 3, payload: { cols: 40, rows: 10 } });
+    const resizeErr = await waitForMsg(viewer, "error");
+    expect((resizeErr.payload as any).code).toBe("READ_ONLY");
+
+    const session = server.store.get(sessionId);
+    expect(session?.cols).toBe(80);
+    expect(session?.rows).toBe(24);
+
+    host.close();
+    viewer.close();
+  });
+
+  it("rejects create_session from a view-only client", async () => {
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    const before = server.store.list().length;
+    send(viewer, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "view-create", cols: 80, rows: 24 },
+    });
+    const err = await waitForMsg(viewer, "error");
+    expect(err.seq).toBe(1);
+    expect((err.payload as any).code).toBe("READ_ONLY");
+    expect(server.store.list()).toHaveLength(before);
+
+    viewer.close();
+  });
+});
+
+describe("token registry", () => {
+  it("accepts registry tokens with their scope", async () => {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "registry-scope", cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(host, "session_created");
+
+    const { token } = server.registry.create({ label: "viewer", scope: "view" });
+    const ws = await connectClient(server.port, token);
+    send(ws, {
+      type: "attach",
+      seq: 2,
+      payload: { target: (created.payload as any).id, cols: 0, rows: 0 },
+    });
+    const attached = await waitForMsg(ws, "attached");
+    expect((attached.payload as any).readOnly).toBe(true);
+
+    host.close();
+    ws.close();
+  });
+
+  it("closes live clients when their token is revoked", async () => {
+    const { token, entry } = server.registry.create({ label: "temp", scope: "full" });
+    const revoked = await connectClient(server.port, token);
+    const master = await connectClient(server.port);
+
+    const closed = new Promise<number>((resolve) => {
+      revoked.on("close", (code) => resolve(code));
+    });
+
+    server.registry.revoke(entry.id);
+    expect(server.manager.closeRevokedClients(server.registry)).toBe(1);
+    expect(await closed).toBe(4001);
+    expect(master.readyState).toBe(WebSocket.OPEN);
+
+    await expect(connectClient(server.port, token)).rejects.toThrow();
+    master.close();
+  });
+});
+
+describe("create_session options", () => {
+  it("runs a command with cwd and env, reporting its exit code", async () => {
+    const ws = await connectClient(server.port);
+    const cwd = realpathSync(tmpdir());
+
+    let output = "";
+    ws.on("message", (data, isBinary) => {
+      if (isBinary) output += data.toString();
+    });
+    const detached = waitForMsg(ws, "detached");
+
+    // attach: true subscribes before the command can print and exit
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: {
+        name: "run-test",
+        cols: 80,
+        rows: 24,
+        command: ["/bin/sh", "-c", 'printf "%s:%s" "$FOO" "$PWD"; exit 3'],
+        cwd,
+        env: { FOO: "bar" },
+        attach: true,
+      },
+    });
+    await waitForMsg(ws, "attached");
+
+    expect(((await detached).payload as any).exitCode).toBe(3);
+    expect(output).toContain(`bar:${cwd}`);
+    ws.close();
+  });
+
+  it("replaces the server environment when inheritEnv is false", async () => {
+    const ws = await connectClient(server.port);
+    let output = "";
+    ws.on("message", (data, isBinary) => {
+      if (isBinary) output += data.toString();
+    });
+    const detached = waitForMsg(ws, "detached");
+
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: {
+        name: "env-test",
+        cols: 80,
+        rows: 24,
+        command: ["/bin/sh", "-c", 'printf "[%s|%s]" "$FOO" "$HOME"'],
+        env: { FOO: "bar" },
+        inheritEnv: false,
+        attach: true,
+      },
+    });
+    await detached;
+
+    expect(output).toContain("[bar|]");
+    ws.close();
+  });
+
+  it("rejects options outside the allowlists", async () => {
+    const ws = await connectClient(server.port);
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "bad-shell", cols: 80, rows: 24, shell: "/usr/bin/env" },
+    });
+    const err = await waitForMsg(ws, "error");
+    expect((err.payload as any).code).toBe("NOT_ALLOWED");
+    expect(server.store.list().some((s) => s.name === "bad-shell")).toBe(false);
+    ws.close();
+  });
+
+  it("does not let view-only tokens start sessions", async () => {
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    send(viewer, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "viewer-run", cols: 80, rows: 24, command: ["id"] },
+    });
+    const err = await waitForMsg(viewer, "error");
+    expect((err.payload as any).code).toBe("READ_ONLY");
+    viewer.close();
+  });
+});
+
+describe("kill and rename", () => {
+  async function createSession(ws: WebSocket, name: string): Promise<string> {
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: { name, cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(ws, "session_created");
+    return (created.payload as any).id;
+  }
+
+  it("kills a managed session and detaches attached clients", async () => {
+    const host = await connectClient(server.port);
+    const other = await connectClient(server.port);
+    const sessionId = await createSession(host, "kill-me");
+
+    send(other, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 0, rows: 0 },
+    });
+    await waitForMsg(other, "attached");
+
+    const detached = waitForMsg(other, "detached");
+    const removedForHost = waitForMsg(host, "session_removed");
+    send(host, { type: "kill_session", seq: 2, payload: { target: sessionId } });
+
+    expect((await removedForHost).payload).toEqual({ id: sessionId });
+    expect((await detached).payload).toMatchObject({ reason: "session_killed" });
+    expect(server.store.get(sessionId)).toBeUndefined();
+
+    host.close();
+    other.close();
+  });
+
+  it("reports unknown sessions", async () => {
+    const ws = await connectClient(server.port);
+    send(ws, { type: "kill_session", seq: 1, payload: { target: "nope" } });
+    const err = await waitForMsg(ws, "error");
+    expect((err.payload as any).code).toBe("SESSION_NOT_FOUND");
+    ws.close();
+  });
+
+  it("rejects messages without a string target", async () => {
+    const ws = await connectClient(server.port);
+    const bad = [
+      { type: "kill_session", payload: {} },
+      { type: "rename_session", payload: { target: 42, name: "x" } },
+      { type: "attach", payload: { cols: 80, rows: 24 } },
+    ];
+    for (const [i, msg] of bad.entries()) {
+      send(ws, { ...msg, seq: i + 1 });
+      const err = await waitForMsg(ws, "error");
+      expect(err.seq).toBe(i + 1);
+      expect((err.payload as any).code).toBe("INVALID_MESSAGE");
+    }
+    ws.close();
+  });
+
+  it("renames a managed session for every client", async () => {
+    const host = await connectClient(server.port);
+    const other = await connectClient(server.port);
+    const sessionId = await createSession(host, "old-name");
+
+    const renamed = waitForMsg(other, "session_renamed");
+    send(host, {
+      type: "rename_session",
+      seq: 2,
+      payload: { target: sessionId, name: "  build box  " },
+    });
+    expect((await renamed).payload).toEqual({
+      id: sessionId,
+      newId: sessionId,
+      name: "build box",
+    });
+
+    send(other, { type: "list_sessions", seq: 3, payload: {} });
+    const list = await waitForMsg(other, "session_list");
+    const info = (list.payload as any).sessions.find((s: any) => s.id === sessionId);
+    expect(info.name).toBe("build box");
+
+    send(host, { type: "rename_session", seq: 4, payload: { target: sessionId, name: " " } });
+    const err = await waitForMsg(host, "error");
+    expect((err.payload as any).code).toBe("INVALID_NAME");
+
+    host.close();
+    other.close();
+  });
+
+  it("refuses view-only and session-scoped tokens", async () => {
+    const host = await connectClient(server.port);
+    const sessionId = await createSession(host, "protected");
+
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    send(viewer, { type: "kill_session", seq: 1, payload: { target: sessionId } });
+    expect(((await waitForMsg(viewer, "error")).payload as any).code).toBe("READ_ONLY");
+
+    const { token } = server.registry.create({
+      label: "scoped",
+      scope: "full",
+      sessionId,
+    });
+    const scoped = await connectClient(server.port, token);
+    send(scoped, {
+      type: "rename_session",
+      seq: 1,
+      payload: { target: sessionId, name: "mine" },
+    });
+    expect(((await waitForMsg(scoped, "error")).payload as any).code).toBe("FORBIDDEN");
+    expect(server.store.get(sessionId)?.name).toBe("protected");
+
+    host.close();
+    viewer.close();
+    scoped.close();
+  });
+});
+
+describe("session-scoped tokens", () => {
+  async function createSession(ws: WebSocket, name: string): Promise<string> {
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: { name, cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(ws, "session_created");
+    return (created.payload as any).id;
+  }
+
+  it("only lists and attaches the bound session", async () => {
+    const host = await connectClient(server.port);
+    const shared = await createSession(host, "scoped-shared");
+    const other = await createSession(host, "scoped-other");
+
+    const { token } = server.registry.create({
+      label: "share-link",
+      scope: "full",
+      sessionId: shared,
+    });
+    const guest = await connectClient(server.port, token);
+
+    send(guest, { type: "list_sessions", seq: 1, payload: {} });
+    const list = await waitForMsg(guest, "session_list");
+    const ids = ((list.payload as any).sessions as any[]).map((s) => s.id);
+    expect(ids).toEqual([shared]);
+
+    send(guest, {
+      type: "attach",
+      seq: 2,
+      payload: { target: other, cols: 0, rows: 0 },
+    });
+    const err = await waitForMsg(guest, "error");
+    expect((err.payload as any).code).toBe("FORBIDDEN");
+
+    send(guest, {
+      type: "attach",
+      seq: 3,
+      payload: { target: shared, cols: 0, rows: 0 },
+    });
+    const attached = await waitForMsg(guest, "attached");
+    expect((attached.payload as any).target).toBe(shared);
+
+    host.close();
+    guest.close();
+  });
+
+  it("hears about renames of its own session only", async () => {
+    const host = await connectClient(server.port);
+    const shared = await createSession(host, "scoped-rename");
+    const other = await createSession(host, "scoped-elsewhere");
+    const { token } = server.registry.create({
+      label: "share-link",
+      scope: "full",
+      sessionId: shared,
+    });
+    const guest = await connectClient(server.port, token);
+    const heard = collectMessages(guest, 500);
+
+    send(host, { type: "rename_session", seq: 2, payload: { target: other, name: "secret" } });
+    send(host, { type: "rename_session", seq: 3, payload: { target: shared, name: "public" } });
+    const renames = (await heard).filter((m) => m.type === "session_renamed");
+    expect(renames.map((m) => (m.payload as any).id)).toEqual([shared]);
+
+    host.close();
+    guest.close();
+  });
+
+  it("hears about resize policy changes to its own session only", async () => {
+    const host = await connectClient(server.port);
+    const shared = await createSession(host, "scoped-policy");
+    const other = await createSession(host, "scoped-policy-other");
+    const { token } = server.registry.create({
+      label: "share-link",
+      scope: "full",
+      sessionId: shared,
+    });
+    const guest = await connectClient(server.port, token);
+    const heard = collectMessages(guest, 500);
+
+    for (const [seq, target] of [other, shared].entries()) {
+      send(host, {
+        type: "set_resize_policy",
+        seq: seq + 2,
+        payload: { target, policy: "smallest" },
+      });
+    }
+    const changes = (await heard).filter((m) => m.type === "resize_policy_changed");
+    expect(changes.map((m) => (m.payload as any).id)).toEqual([shared]);
+
+    host.close();
+    guest.close();
+  });
+
+  it("does not hear when other sessions end", async () => {
+    const host = await connectClient(server.port);
+    const shared = await createSession(host, "scoped-survivor");
+    const other = await createSession(host, "scoped-doomed");
+    const { token } = server.registry.create({
+      label: "share-link",
+      scope: "full",
+      sessionId: shared,
+    });
+    const guest = await connectClient(server.port, token);
+    const heard = collectMessages(guest, 500);
+
+    send(host, { type: "kill_session", seq: 2, payload: { target: other } });
+    expect((await heard).some((m) => m.type === "session_removed")).toBe(false);
+
+    host.close();
+    guest.close();
+  });
+
+  it("refuses to create new sessions", async () => {
+    const host = await connectClient(server.port);
+    const shared = await createSession(host, "scoped-create");
+    const { token } = server.registry.create({
+      label: "share-link",
+      scope: "full",
+      sessionId: shared,
+    });
+    const guest = await connectClient(server.port, token);
+
+    send(guest, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "sneaky", cols: 80, rows: 24 },
+    });
+    const err = await waitForMsg(guest, "error");
+    expect((err.payload as any).code).toBe("FORBIDDEN");
+
+    host.close();
+    guest.close();
+  });
+});
+
+describe("notifications", () => {
+  it("reaches clients that can see the session, attached or not", async () => {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "notifier", cols: 80, rows: 24 },
+    });
+    const id = ((await waitForMsg(host, "session_created")).payload as any).id;
+    send(host, { type: "attach", seq: 2, payload: { target: id, cols: 80, rows: 24 } });
+    await waitForMsg(host, "attached");
+
+    const phone = await connectClient(server.port);
+    const { token } = server.registry.create({
+      label: "elsewhere",
+      scope: "full",
+      sessionId: "another-session",
+    });
+    const outsider = await connectClient(server.port, token);
+    const outsiderMsgs = collectMessages(outsider, 1500);
+
+    const notified = waitForMsg(phone, "notification");
+    send(host, {
+      type: "input",
+      seq: 3,
+      payload: { data: 'printf "\\033]9;Build finished\\007"\n' },
+    });
+    expect((await notified).payload).toEqual({
+      sessionId: id,
+      sessionName: "notifier",
+      kind: "notify",
+      text: "Build finished",
+    });
+    expect((await outsiderMsgs).some((m) => m.type === "notification")).toBe(false);
+
+    host.close();
+    phone.close();
+    outsider.close();
+  });
+});
+
+describe("command history", () => {
+  it("lists commands a shell marked with OSC 133", async () => {
+    const ws = await connectClient(server.port);
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "marked", cols: 80, rows: 24 },
+    });
+    const id = ((await waitForMsg(ws, "session_created")).payload as any).id;
+    send(ws, { type: "attach", seq: 2, payload: { target: id, cols: 80, rows: 24 } });
+    await waitForMsg(ws, "attached");
+
+    // Printed after the D mark; the echoed command line reads marks-$((40+2)) instead
+    const finished = new Promise<void>((resolve) => {
+      let collected = "";
+      const handler = (data: Buffer | string) => {
+        if (Buffer.isBuffer(data)) {
+          collected += data.toString();
+          if (collected.includes("marks-42")) {
+            ws.removeListener("message", handler);
+            resolve();
+          }
+        }
+      };
+      ws.on("message", handler);
+    });
+    // What a shell's integration script prints around a failing command
+    send(ws, {
+      type: "input",
+      seq: 3,
+      payload: {
+        data: "printf '\\033]133;C\\007'; false; printf '\\033]133;D;%s\\007' $?; echo marks-$((40+2))\n",
+      },
+    });
+    await finished;
+
+    send(ws, { type: "get_commands", seq: 4, payload: { target: id } });
+    const reply = await waitForMsg(ws, "commands");
+    expect(reply.seq).toBe(4);
+    const { commands } = reply.payload as any;
+    expect(commands).toHaveLength(1);
+    expect(commands[0]).toMatchObject({ id: 1, exitCode: 1 });
+    expect(commands[0].outputEnd).toBeGreaterThanOrEqual(commands[0].outputStart);
+
+    send(ws, { type: "get_commands", seq: 5, payload: { target: "tmux:anything" } });
+    expect(((await waitForMsg(ws, "error")).payload as any).code).toBe("UNSUPPORTED");
+
+    ws.close();
+  });
+
+  it("rejects a request without a target", async () => {
+    const viewer = await connectClient(server.port, VIEW_TOKEN);
+    send(viewer, { type: "get_commands", seq: 1, payload: {} });
+    const err = await waitForMsg(viewer, "error");
+    expect(err.seq).toBe(1);
+    expect((err.payload as any).code).toBe("INVALID_MESSAGE");
+
+    // The server is still there to answer
+    send(viewer, { type: "list_sessions", seq: 2, payload: {} });
+    await waitForMsg(viewer, "session_list");
+    viewer.close();
+  });
+});
+
+describe("resumable output", () => {
+  function collectBinary(ws: WebSocket, durationMs: number): Promise<string> {
+    return new Promise((resolve) => {
+      let out = "";
+      const handler = (data: Buffer, isBinary: boolean) => {
+        if (isBinary) out += data.toString();
+      };
+      ws.on("message", handler);
+      setTimeout(() => {
+        ws.removeListener("message", handler);
+        resolve(out);
+      }, durationMs);
+    });
+  }
+
+  it("replays only output after resumeFrom", async () => {
+    const host = await connectClient(server.port);
+    send(host, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "resume", cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(host, "session_created");
+    const sessionId = (created.payload as any).id;
+
+    const marker = `BEFORE_${Date.now()}`;
+    send(host, {
+      type: "attach",
+      seq: 2,
+      payload: { target: sessionId, cols: 80, rows: 24 },
+    });
+    await waitForMsg(host, "attached");
+    send(host, { type: "input", seq: 3, payload: { data: `echo ${marker}\n` } });
+    await collectBinary(host, 500);
+
+    const session = server.store.get(sessionId)!;
+    const resumeFrom = session.getOutputOffset();
+
+    const web = await connectClient(server.port);
+    const replayed = collectBinary(web, 500);
+    send(web, {
+      type: "attach",
+      seq: 1,
+      payload: { target: sessionId, cols: 0, rows: 0, resumeFrom },
+    });
+    const attached = await waitForMsg(web, "attached");
+    expect((attached.payload as any).offset).toBe(resumeFrom);
+    expect((attached.payload as any).gap).toBe(false);
+    expect(await replayed).not.toContain(marker);
+
+    host.close();
+    web.close();
+  });
+
+  it("reports a gap when resuming from an evicted offset", async () => {
+    const ws = await connectClient(server.port);
+    send(ws, {
+      type: "create_session",
+      seq: 1,
+      payload: { name: "resume-gap", cols: 80, rows: 24 },
+    });
+    const created = await waitForMsg(ws, "session_created");
+    const sessionId = (created.payload as any).id;
+
+    send(ws, {
+      type: "attach",
+      seq: 2,
+      payload: { target: sessionId, cols: 0, rows: 0, resumeFrom: 1_000_000_000 },
+    });
+    const attached = await waitForMsg(ws, "attached");
+    expect((attached.payload as any).gap).toBe(true);
+
+    ws.close();
+  });
 });
@@ -63,6 +63,21 @@ describe("ManagedSessionStore", () => {
       expect(activeCount).toBe(3);
     });
 
+    it("emits session_added, then session_updated as the session changes", () => {
+      const store = createStore();
+      const added: ManagedSession[] = [];
+      const updated: string[] = [];
+      store.on("session_added", (s: ManagedSession) => added.push(s));
+      store.on("session_updated", (s: ManagedSession) => updated.push(s.getInfo().name));
+
+      const session = store.create(sessionOpts("watched"));
+      expect(added).toEqual([session]);
+
+      session.attachClient("c1");
+      session.rename("renamed");
+      expect(updated).toEqual(["watched", "renamed"]);
+    });
+
     it("adds the session to the store list", () => {
       const store = createStore();
       const session = store.create(sessionOpts());
@@ -92,6 +107,22 @@ describe("ManagedSessionStore", () => {
     });
   });
 
+  describe("getSpawnFailures()", () => {
+    it("counts sessions whose program could not be started", async () => {
+      const store = createStore();
+      const ok = store.create(sessionOpts("ok"));
+      const broken = store.create({ ...sessionOpts("broken"), shell: "/nonexistent/shell" });
+      await new Promise<void>((resolve) => broken.on("exit", () => resolve()));
+
+      expect(store.getSpawnFailures()).toBe(1);
+
+      const exited = new Promise<void>((resolve) => ok.on("exit", () => resolve()));
+      ok.write("exit\n");
+      await exited;
+      expect(store.getSpawnFailures()).toBe(1);
+    });
+  });
+
   describe("remove()", () => {
     it("removes the session from the store", () => {
       const store = createStore();
@@ -135,6 +166,17 @@ describe("ManagedSessionStore", () => {
       expect(store.get(session.id)).toBeUndefined();
     });
 
+    it("emits session_removed synchronously", () => {
+      const store = createStore();
+      const session = store.create(sessionOpts());
+      const events: string[] = [];
+      store.on("session_removed", (id: string) => events.push(`removed:${id}`));
+
+      store.remove(session.id);
+
+      expect(events).toEqual([`removed:${session.id}`]);
+    });
+
     it("removing one session does not affect others", () => {
       const store = createStore();
       const s1 = store.create(sessionOpts("s1"));
@@ -127,6 +127,24 @@ describe("getAttachedClients and detachClient round-trips", () => {
     expect(() => s.detachClient("nonexistent")).not.toThrow();
     expect(s.getAttachedClientCount()).toBe(0);
   });
+  it("keeps each client's identity for presence", () => {
+    const s = createSession();
+    s.attachClient("c1", undefined, { name: "Ada", device: "cli" });
+    s.attachClient("c2", undefined, undefined, true);
+    expect(s.getPresence()).toEqual([
+      { clientId: "c1", name: "Ada", device: "cli", readOnly: false },
+      { clientId: "c2", name: "Anonymous", device: "unknown", readOnly: true },
+    ]);
+
+    expect(s.updateClient("c2", { name: "Grace", device: "mobile" })).toBe(true);
+    expect(s.getClient("c2")).toEqual({
+      clientId: "c2",
+      name: "Grace",
+      device: "mobile",
+      readOnly: true,
+    });
+    expect(s.updateClient("gone", { name: "X", device: "web" })).toBe(false);
+  });
 });
 
 describe("resize", () => {
@@ -273,6 +291,145 @@ describe("OSC title extraction", () => {
     const title = await titlePromise;
     expect(title).toBe("TerminalTitle");
   });
+
+  it("keeps a user-chosen name over later OSC titles", async () => {
+    const s = createSession();
+    s.rename("pinned");
+    expect(s.name).toBe("pinned");
+
+    const marker = new Promise<void>((resolve) => {
+      s.on("data", (d: string) => {
+        // Quotes keep the typed command's echo from matching
+        if (d.includes("after-title")) resolve();
+      });
+    });
+    s.write('printf "\\033]0;Other\\007"; echo after-"title"\n');
+    await marker;
+    expect(s.name).toBe("pinned");
+  });
+});
+
+describe("working directory and activity", () => {
+  it("parses OSC 7 reports, decoding the path", () => {
+    const s = createSession() as any;
+    expect(s.extractCwd("\x1b]7;file://host/home/me/my%20proj\x07")).toBe("/home/me/my proj");
+    expect(s.extractCwd("\x1b]7;file:///a\x1b\\$ \x1b]7;file:///b\x07")).toBe("/b");
+    expect(s.extractCwd("\x1b]7;http://host/x\x07")).toBeNull();
+  });
+
+  it("joins an OSC 7 report split across chunks", () => {
+    const s = createSession() as any;
+    expect(s.extractCwd("$ \x1b]7;file://host/home/u")).toBeNull();
+    expect(s.extractCwd("ser/src\x1b")).toBeNull();
+    expect(s.extractCwd("\\$ ")).toBe("/home/user/src");
+  });
+
+  it("joins an OSC 7 report split right after the ESC", () => {
+    const s = createSession() as any;
+    expect(s.extractCwd("$ \x1b")).toBeNull();
+    expect(s.extractCwd("]7;file://host/srv/app\x07$ ")).toBe("/srv/app");
+  });
+
+  it("reports where it started, then follows OSC 7", async () => {
+    const s = createSession();
+    expect(s.getInfo()).toMatchObject({ cwd: process.cwd() });
+    expect(s.getInfo().createdAt).toBeLessThanOrEqual(Date.now());
+
+    const changed = new Promise<void>((resolve) => {
+      s.on("changed", () => {
+        if (s.cwd === "/tmp/somewhere") resolve();
+      });
+    });
+    s.write('printf "\\033]7;file://localhost/tmp/somewhere\\007"\n');
+    await changed;
+    expect(s.getInfo().cwd).toBe("/tmp/somewhere");
+  });
+
+  it("names the foreground program and tracks activity", async () => {
+    const s = createSession();
+    const before = s.getInfo().lastActivityAt;
+    await new Promise((r) => setTimeout(r, 20));
+    s.write("echo hi\n");
+    expect(s.getInfo().lastActivityAt).toBeGreaterThan(before);
+    expect(s.getInfo().command).toBeTruthy();
+  });
+});
+
+describe("bell and OSC 9/777 notifications", () => {
+  it("reports a bell", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("done\x07")).toEqual([{ kind: "bell", text: "" }]);
+  });
+
+  it("does not mistake an OSC terminator for a bell", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("\x1b]0;title\x07prompt$ ")).toEqual([]);
+  });
+
+  it("reports OSC 9 notifications", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("\x1b]9;Build finished\x1b\\")).toEqual([
+      { kind: "notify", text: "Build finished" },
+    ]);
+  });
+
+  it("ignores OSC 9 subcommands such as progress", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("\x1b]9;4;1;50\x07")).toEqual([]);
+  });
+
+  it("reports OSC 777 notify with a title", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("\x1b]777;notify;Agent;Waiting; for input\x07")).toEqual([
+      { kind: "notify", title: "Agent", text: "Waiting; for input" },
+    ]);
+  });
+
+  it("joins a sequence split across chunks", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("out\x1b]9;Tests pa")).toEqual([]);
+    expect(s.extractNotifications("ssed\x07")).toEqual([{ kind: "notify", text: "Tests passed" }]);
+  });
+
+  it("joins a sequence split right after the ESC", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("build done\x1b")).toEqual([]);
+    expect(s.extractNotifications("]9;Build finished\x07")).toEqual([
+      { kind: "notify", text: "Build finished" },
+    ]);
+  });
+
+  it("rings at most once a second", () => {
+    const s = createSession() as any;
+    expect(s.extractNotifications("\x07")).toHaveLength(1);
+    expect(s.extractNotifications("\x07\x07")).toEqual([]);
+  });
+
+  it("emits notification events from PTY output", async () => {
+    const s = createSession();
+    const notified = new Promise((resolve) => s.on("notification", resolve));
+    s.write('printf "\\033]777;notify;CI;green\\007"\n');
+    expect(await notified).toEqual({ kind: "notify", title: "CI", text: "green" });
+  });
+});
+
+describe("OSC 133 command marks", () => {
+  it("records a command whose marks arrive split across chunks", async () => {
+    const s = createSession() as any;
+    s.feedEmulator("\x1b]133;A\x07$ \x1b]133;B\x07make\r\n\x1b]1", 0);
+    s.feedEmulator("33;C\x07built\r\n\x1b]133;D;", 30);
+    s.feedEmulator("2\x07", 50);
+    const [cmd] = await s.getCommands();
+    expect(cmd).toMatchObject({ command: "make", exitCode: 2 });
+  });
+
+  it("records a mark split right after the ESC", async () => {
+    const s = createSession() as any;
+    s.feedEmulator("\x1b]133;A\x07$ \x1b]133;B\x07make\r\n\x1b]133;C\x07built\r\n\x1b", 0);
+    s.feedEmulator("]133;D;2\x07", 40);
+    const [cmd] = await s.getCommands();
+    expect(cmd).toMatchObject({ command: "make", exitCode: 2 });
+  });
 });
 
 describe("ring buffer byte limit", () => {
@@ -379,6 +536,143 @@ describe("ring buffer byte limit", () => {
   });
 });
 
+describe("getStats", () => {
+  it("counts input and output bytes and reports buffer occupancy", () => {
+    const s = new ManagedSession({
+      name: "test",
+      shell: process.env.SHELL ?? "/bin/sh",
+      cols: 80,
+      rows: 24,
+      bufferSize: 100,
+    });
+    sessions.push(s);
+    const sAny = s as any;
+    const before = s.getStats();
+
+    s.write("é");
+    sAny.pushToBuffer("A".repeat(60));
+    sAny.pushToBuffer("B".repeat(60));
+
+    const stats = s.getStats();
+    expect(stats.inputBytes - before.inputBytes).toBe(2);
+    expect(stats.outputBytes - before.outputBytes).toBe(120);
+    expect(stats.bufferedBytes).toBe(60);
+    expect(stats.bufferCapacity).toBe(100);
+  });
+});
+
+describe("stream offsets", () => {
+  function bufferedSession(bufferSize: number): any {
+    const s = new ManagedSession({
+      name: "test",
+      shell: process.env.SHELL ?? "/bin/sh",
+      cols: 80,
+      rows: 24,
+      bufferSize,
+    });
+    sessions.push(s);
+    return s;
+  }
+
+  it("advances the offset by the byte length of each chunk", () => {
+    const s = bufferedSession(1024);
+    const start = s.getOutputOffset();
+    s.pushToBuffer("abc");
+    s.pushToBuffer("é");
+    expect(s.getOutputOffset()).toBe(start + 5);
+  });
+
+  it("returns only the output after a resume offset", () => {
+    const s = bufferedSession(1024);
+    s.ringBuffer = [];
+    s.ringBufferBytes = 0;
+    s.ringBufferStart = s.outputOffset;
+    const base = s.getOutputOffset();
+
+    s.pushToBuffer("first ");
+    const mark = s.getOutputOffset();
+    s.pushToBuffer("second");
+
+    const replay = s.getOutputSince(mark);
+    expect(replay).toEqual({ data: "second", offset: mark, gap: false });
+    expect(s.getOutputSince(base).data).toBe("first second");
+    expect(s.getOutputSince(s.getOutputOffset()).data).toBe("");
+  });
+
+  it("signals a gap when the offset has been evicted", () => {
+    const s = bufferedSession(100);
+    s.pushToBuffer("A".repeat(60));
+    s.pushToBuffer("B".repeat(60));
+    s.pushToBuffer("C".repeat(60));
+
+    const replay = s.getOutputSince(0);
+    expect(replay.gap).toBe(true);
+    expect(replay.data).toBe(s.getBufferedOutput());
+    expect(replay.offset).toBe(s.getOutputOffset() - 60);
+  });
+
+  it("signals a gap when the offset is ahead of the stream", () => {
+    const s = bufferedSession(1024);
+    const replay = s.getOutputSince(s.getOutputOffset() + 10);
+    expect(replay.gap).toBe(true);
+  });
+
+  it("replays the whole buffer without a gap for fresh clients", () => {
+    const s = bufferedSession(1024);
+    s.pushToBuffer("hello");
+    const replay = s.getOutputSince();
+    expect(replay.gap).toBe(false);
+    expect(replay.data).toBe(s.getBufferedOutput());
+  });
+});
+
+describe("screen snapshots", () => {
+  it("serializes the parsed screen contents", async () => {
+    const s = createSession() as any;
+    s.feedEmulator("\x1b[2J\x1b[Hsnapshot-marker");
+    await s.flushEmulator();
+    expect(s.getSnapshot().data).toContain("snapshot-marker");
+  });
+
+  it("preserves the alternate screen", async () => {
+    const s = createSession() as any;
+    s.feedEmulator("\x1b[?1049hfullscreen-app");
+    await s.flushEmulator();
+    const snapshot = s.getSnapshot().data;
+    expect(snapshot).toContain("\x1b[?1049h");
+    expect(snapshot).toContain("fullscreen-app");
+  });
+
+  it("offsets snapshots so byte counting lands on the live stream position", async () => {
+    const s = createSession() as any;
+    await s.flushEmulator();
+    const snapshot = s.getSnapshot();
+    expect(snapshot.offset + Buffer.byteLength(snapshot.data)).toBe(s.getOutputOffset());
+  });
+
+  it("resumes with a delta when the offset is still buffered", () => {
+    const s = createSession() as any;
+    const mark = s.getOutputOffset();
+    s.pushToBuffer("delta-only");
+    const replay = s.getReplay(mark);
+    expect(replay).toEqual({ data: "delta-only", offset: mark, gap: false });
+  });
+
+  it("falls back to a snapshot with a gap when the offset is gone", () => {
+    const s = createSession() as any;
+    const replay = s.getReplay(s.getOutputOffset() + 100);
+    expect(replay.gap).toBe(true);
+    expect(replay.offset + Buffer.byteLength(replay.data)).toBe(s.getOutputOffset());
+  });
+
+  it("tracks resizes in the emulator", () => {
+    const s = createSession(80, 24) as any;
+    s.resize(100, 30);
+    expect(s.emulator.cols).toBe(100);
+    expect(s.emulator.rows).toBe(30);
+  });
+});
+
 describe("session exit", () => {
   it("emits exit event when PTY process exits", async () => {
     const s = createSession(80, 24);
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { collectMetrics, formatMetrics, Histogram } from "../server/metrics.js";
+import { ManagedSessionStore } from "../session/managed-session-store.js";
+import { SessionManager } from "../session/session-manager.js";
+import { TmuxProvider } from "../tmux/tmux-provider.js";
+import { AuthLimiter } from "../server/rate-limit.js";
+import type { Config } from "../config.js";
+
+const stores: ManagedSessionStore[] = [];
+
+afterEach(() => {
+  for (const store of stores) store.shutdown();
+  stores.length = 0;
+});
+
+describe("formatMetrics", () => {
+  it("renders help, type and labelled samples", () => {
+    const text = formatMetrics([
+      {
+        name: "demo_total",
+        help: "A demo counter.",
+        type: "counter",
+        samples: [{ value: 3 }, { labels: { session: 'a"b\\c' }, value: 1 }],
+      },
+    ]);
+    expect(text).toBe(
+      "# HELP demo_total A demo counter.\n" +
+        "# TYPE demo_total counter\n" +
+        "demo_total 3\n" +
+        'demo_total{session="a\\"b\\\\c"} 1\n',
+    );
+  });
+});
+
+describe("Histogram", () => {
+  it("keeps cumulative bucket counts with a sum and count", () => {
+    const h = new Histogram([0.1, 1]);
+    h.observe(0.05);
+    h.observe(0.5);
+    h.observe(5);
+    const text = formatMetrics([
+      { name: "lat", help: "Latency.", type: "histogram", samples: h.samples() },
+    ]);
+    expect(text).toContain('lat_bucket{le="0.1"} 1\n');
+    expect(text).toContain('lat_bucket{le="1"} 2\n');
+    expect(text).toContain('lat_bucket{le="+Inf"} 3\n');
+    expect(text).toContain("lat_sum 5.55\n");
+    expect(text).toContain("lat_count 3\n");
+  });
+});
+
+describe("collectMetrics", () => {
+  it("reports sessions, traffic and auth failures", async () => {
+    const store = new ManagedSessionStore();
+    stores.push(store);
+    const config = { maxClients: 10, audit: false } as Config;
+    const sessions = new SessionManager(config, store, new TmuxProvider());
+    const authLimiter = new AuthLimiter({ maxFailures: 5, lockoutMs: 1000, maxLockoutMs: 1000 });
+    authLimiter.recordFailure("10.0.0.1");
+    const session = store.create({ name: "m", shell: "/bin/sh", cols: 80, rows: 24 });
+    session.write("true\r");
+
+    const text = await collectMetrics({ sessions, store, tmux: new TmuxProvider(), authLimiter });
+    expect(text).toContain("terminalsync_clients 0\n");
+    expect(text).toContain('terminalsync_sessions{source="managed"} 1\n');
+    expect(text).toContain(`terminalsync_session_input_bytes_total{session="${session.id}"} 5\n`);
+    expect(text).toContain("terminalsync_auth_failures_total 1\n");
+    expect(text).toContain("terminalsync_pty_spawn_failures_total 0\n");
+    expect(text).toContain("# TYPE terminalsync_tmux_discovery_seconds histogram\n");
+    sessions.shutdown();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { OutputBatcher } from "../session/output-batcher.js";
+
+function createBatcher(windowMs = 10, maxBytes = 16) {
+  const sent: string[] = [];
+  const batcher = new OutputBatcher((data) => sent.push(data.toString()), {
+    windowMs,
+    maxBytes,
+  });
+  return { batcher, sent };
+}
+
+describe("OutputBatcher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("coalesces chunks within the window into one frame", () => {
+    const { batcher, sent } = createBatcher();
+    batcher.push("ab");
+    batcher.push("cd");
+    expect(sent).toEqual([]);
+
+    vi.advanceTimersByTime(10);
+    expect(sent).toEqual(["abcd"]);
+  });
+
+  it("does not extend the window for later chunks", () => {
+    const { batcher, sent } = createBatcher();
+    batcher.push("a");
+    vi.advanceTimersByTime(6);
+    batcher.push("b");
+    vi.advanceTimersByTime(4);
+    expect(sent).toEqual(["ab"]);
+  });
+
+  it("flushes early once the byte threshold is reached", () => {
+    const { batcher, sent } = createBatcher(10, 4);
+    batcher.push("abc");
+    batcher.push("defg");
+    expect(sent).toEqual(["abcdefg"]);
+
+    // The timer from the first chunk was cleared
+    vi.advanceTimersByTime(10);
+    expect(sent).toEqual(["abcdefg"]);
+  });
+
+  it("flush sends waiting output immediately", () => {
+    const { batcher, sent } = createBatcher();
+    batcher.push("x");
+    batcher.flush();
+    expect(sent).toEqual(["x"]);
+
+    batcher.flush();
+    expect(sent).toEqual(["x"]);
+  });
+
+  it("discard drops waiting output", () => {
+    const { batcher, sent } = createBatcher();
+    batcher.push("lost");
+    batcher.discard();
+    vi.advanceTimersByTime(10);
+    expect(sent).toEqual([]);
+  });
+
+  it("sends every chunk at once with a zero window", () => {
+    const { batcher, sent } = createBatcher(0);
+    batcher.push("a");
+    batcher.push("");
+    batcher.push("b");
+    expect(sent).toEqual(["a", "b"]);
+  });
+});
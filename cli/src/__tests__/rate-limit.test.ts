@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import type { IncomingMessage } from "node:http";
+import { AuthLimiter, TokenBucket } from "../server/rate-limit.js";
+import { clientAddress } from "../server/auth.js";
+import type { Config } from "../config.js";
+
+/** A clock the test moves by hand. */
+function fakeClock() {
+  const clock = { now: 1_000_000, advance: (ms: number) => (clock.now += ms) };
+  return clock;
+}
+
+function createLimiter(clock = fakeClock()) {
+  const limiter = new AuthLimiter(
+    { maxFailures: 3, lockoutMs: 1000, maxLockoutMs: 5000 },
+    () => clock.now,
+  );
+  return { limiter, clock };
+}
+
+describe("AuthLimiter", () => {
+  it("locks an address out after repeated failures", () => {
+    const { limiter } = createLimiter();
+    expect(limiter.recordFailure("1.2.3.4")).toBeNull();
+    expect(limiter.recordFailure("1.2.3.4")).toBeNull();
+    expect(limiter.retryAfter("1.2.3.4")).toBe(0);
+
+    const lockout = limiter.recordFailure("1.2.3.4");
+    expect(lockout).toMatchObject({ address: "1.2.3.4", strikes: 1 });
+    expect(limiter.retryAfter("1.2.3.4")).toBe(1000);
+    // Other addresses are unaffected
+    expect(limiter.retryAfter("5.6.7.8")).toBe(0);
+  });
+
+  it("doubles the lockout for repeat offenders, up to the cap", () => {
+    const { limiter, clock } = createLimiter();
+    const lockFor = () => {
+      for (let i = 0; i < 3; i++) limiter.recordFailure("1.2.3.4");
+      const wait = limiter.retryAfter("1.2.3.4");
+      clock.advance(wait);
+      return wait;
+    };
+    expect([lockFor(), lockFor(), lockFor(), lockFor()]).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it("forgets an address after a successful login", () => {
+    const { limiter } = createLimiter();
+    limiter.recordFailure("1.2.3.4");
+    limiter.recordFailure("1.2.3.4");
+    limiter.recordSuccess("1.2.3.4");
+    expect(limiter.recordFailure("1.2.3.4")).toBeNull();
+  });
+
+  it("lists only current lockouts", () => {
+    const { limiter, clock } = createLimiter();
+    for (let i = 0; i < 3; i++) limiter.recordFailure("1.2.3.4");
+    expect(limiter.getLockouts()).toEqual([
+      { address: "1.2.3.4", until: clock.now + 1000, strikes: 1 },
+    ]);
+
+    clock.advance(1000);
+    expect(limiter.getLockouts()).toEqual([]);
+  });
+});
+
+describe("TokenBucket", () => {
+  it("allows a burst up to capacity, then refills over time", () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(3, 3, () => clock.now);
+    expect([bucket.take(), bucket.take(), bucket.take(), bucket.take()]).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+
+    clock.advance(1000 / 3);
+    expect(bucket.take()).toBe(true);
+    expect(bucket.take()).toBe(false);
+  });
+
+  it("takes amounts larger than one", () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(100, 100, () => clock.now);
+    expect(bucket.take(80)).toBe(true);
+    expect(bucket.take(30)).toBe(false);
+    clock.advance(100);
+    expect(bucket.take(30)).toBe(true);
+  });
+
+  it("never limits with a capacity of 0", () => {
+    const bucket = new TokenBucket(0, 0);
+    for (let i = 0; i < 1000; i++) expect(bucket.take(1000)).toBe(true);
+  });
+});
+
+describe("clientAddress", () => {
+  function request(remoteAddress: string, headers: Record<string, string> = {}) {
+    return { socket: { remoteAddress }, headers } as unknown as IncomingMessage;
+  }
+  const tunnel = { tunnel: true } as Config;
+  const direct = { tunnel: false } as Config;
+
+  it("uses the socket address without the tunnel", () => {
+    const req = request("127.0.0.1", { "cf-connecting-ip": "9.9.9.9" });
+    expect(clientAddress(req, direct)).toBe("127.0.0.1");
+  });
+
+  it("trusts tunnel headers only on loopback connections", () => {
+    expect(clientAddress(request("127.0.0.1", { "cf-connecting-ip": "9.9.9.9" }), tunnel)).toBe(
+      "9.9.9.9",
+    );
+    expect(
+      clientAddress(request("::1", { "x-forwarded-for": "8.8.8.8, 10.0.0.1" }), tunnel),
+    ).toBe("8.8.8.8");
+    // Someone reaching the port directly cannot pick their own address
+    expect(clientAddress(request("203.0.113.7", { "cf-connecting-ip": "9.9.9.9" }), tunnel)).toBe(
+      "203.0.113.7",
+    );
+  });
+});
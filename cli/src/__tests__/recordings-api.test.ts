@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { handleRecordingsRequest, isRecordingsRoute } from "../server/recordings-api.js";
+import { checkAuth } from "../server/auth.js";
+import { AuthLimiter } from "../server/rate-limit.js";
+import { TokenRegistry } from "../server/token-registry.js";
+import { issueSessionCookie, SESSION_COOKIE } from "../server/session-cookie.js";
+import { TEST_TOKEN, VIEW_TOKEN, testConfig } from "./test-config.js";
+
+let dir: string;
+let registry: TokenRegistry;
+let server: Server;
+let base: string;
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(tmpdir(), "terminalsync-api-"));
+  registry = new TokenRegistry(join(dir, "tokens.json"));
+  const config = testConfig({ recordingsDir: join(dir, "recordings") });
+
+  mkdirSync(config.recordingsDir);
+  writeFileSync(
+    join(config.recordingsDir, "2025-01-01T00-00-00-000Z_aaaa.cast"),
+    '{"version":2,"width":80,"height":24}\n[0.1,"o","hello"]\n',
+  );
+  writeFileSync(
+    join(config.recordingsDir, "2025-01-02T00-00-00-000Z_bbbb.cast"),
+    '{"version":2,"width":80,"height":24}\n',
+  );
+  utimesSync(
+    join(config.recordingsDir, "2025-01-01T00-00-00-000Z_aaaa.cast"),
+    new Date("2025-01-01"),
+    new Date("2025-01-01"),
+  );
+  writeFileSync(join(dir, "secret.cast"), "nope");
+
+  const limiter = new AuthLimiter({ maxFailures: 3, lockoutMs: 30_000, maxLockoutMs: 30_000 });
+  server = createServer((req, res) => {
+    const pathname = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+    if (!isRecordingsRoute(pathname)) {
+      res.writeHead(418);
+      res.end();
+      return;
+    }
+    const auth = checkAuth(req, config, limiter, registry);
+    if (!("grant" in auth)) {
+      res.writeHead(auth.status, auth.retryAfter ? { "Retry-After": String(auth.retryAfter) } : {});
+      res.end();
+      return;
+    }
+    handleRecordingsRequest(req, res, pathname, auth.grant, config);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const addr = server.address();
+  base = `http://127.0.0.1:${typeof addr === "object" ? addr!.port : 0}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function get(path: string, token?: string): Promise<Response> {
+  return fetch(base + path, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe("recordings API", () => {
+  it("rejects requests without a valid token", async () => {
+    expect((await get("/api/recordings")).status).toBe(401);
+    expect((await get("/api/recordings", "wrong")).status).toBe(401);
+  });
+
+  it("locks out an address that keeps guessing", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await get("/api/recordings", "wrong")).status).toBe(401);
+    }
+    const res = await get("/api/recordings", TEST_TOKEN);
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("ignores paths outside the route", async () => {
+    expect((await get("/api/recordingsx", TEST_TOKEN)).status).toBe(418);
+    expect((await get("/index.html")).status).toBe(418);
+  });
+
+  it("lists recordings newest first", async () => {
+    const res = await get("/api/recordings", VIEW_TOKEN);
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { recordings: { sessionId: string }[] };
+    expect(body.recordings.map((r) => r.sessionId)).toEqual(["bbbb", "aaaa"]);
+  });
+
+  it("accepts the token as a query parameter", async () => {
+    const res = await get(`/api/recordings?token=${TEST_TOKEN}`);
+    expect(res.status).toBe(200);
+  });
+
+  it("accepts a session cookie in place of the token", async () => {
+    const cookie = (value: string) =>
+      fetch(base + "/api/recordings", { headers: { Cookie: `${SESSION_COOKIE}=${value}` } });
+    const hour = Date.now() + 60 * 60 * 1000;
+
+    const master = issueSessionCookie({ scope: "full", label: "master" }, TEST_TOKEN, hour);
+    expect((await cookie(master)).status).toBe(200);
+    // Signed with another key, or expired
+    expect((await cookie(issueSessionCookie({ scope: "full", label: "x" }, "other", hour))).status).toBe(401);
+    expect((await cookie(issueSessionCookie({ scope: "full", label: "x" }, TEST_TOKEN, Date.now() - 1))).status).toBe(401);
+
+    // A cookie stops working with the registry token it came from
+    const { entry } = registry.create({ label: "link", scope: "view" });
+    const linked = issueSessionCookie(
+      { scope: "view", label: "link", tokenId: entry.id },
+      TEST_TOKEN,
+      hour,
+    );
+    expect((await cookie(linked)).status).toBe(200);
+    registry.revoke(entry.id);
+    expect((await cookie(linked)).status).toBe(401);
+  });
+
+  it("streams a recording as asciicast", async () => {
+    const res = await get("/api/recordings/2025-01-01T00-00-00-000Z_aaaa.cast", TEST_TOKEN);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/x-asciicast");
+    expect(await res.text()).toContain('"hello"');
+  });
+
+  it("refuses files outside the recordings directory", async () => {
+    expect((await get("/api/recordings/missing.cast", TEST_TOKEN)).status).toBe(404);
+    expect((await get("/api/recordings/..%2Fsecret.cast", TEST_TOKEN)).status).toBe(404);
+  });
+
+  it("limits session-scoped tokens to their own recordings", async () => {
+    const { token } = registry.create({ label: "link", scope: "view", sessionId: "aaaa" });
+
+    const res = await get("/api/recordings", token);
+    const body = (await res.json()) as { recordings: { sessionId: string }[] };
+    expect(body.recordings.map((r) => r.sessionId)).toEqual(["aaaa"]);
+
+    const other = await get("/api/recordings/2025-01-02T00-00-00-000Z_bbbb.cast", token);
+    expect(other.status).toBe(404);
+  });
+
+  it("rejects non-GET methods", async () => {
+    const res = await fetch(base + "/api/recordings", {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${TEST_TOKEN}` },
+    });
+    expect(res.status).toBe(405);
+  });
+});
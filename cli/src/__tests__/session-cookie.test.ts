@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import type { IncomingMessage } from "node:http";
+import {
+  issueSessionCookie,
+  readSessionCookie,
+  sessionCookieHeader,
+  verifySessionCookie,
+  SESSION_COOKIE,
+} from "../server/session-cookie.js";
+import { originAllowed } from "../server/auth.js";
+
+const SECRET = "master-token";
+
+function request(headers: Record<string, string>): IncomingMessage {
+  return { headers } as unknown as IncomingMessage;
+}
+
+describe("session cookies", () => {
+  it("round-trips the grant and expiry", () => {
+    const expiresAt = Date.now() + 60_000;
+    const value = issueSessionCookie(
+      { scope: "view", label: "link", tokenId: "t1", sessionId: "s1" },
+      SECRET,
+      expiresAt,
+    );
+    expect(verifySessionCookie(value, SECRET)).toEqual({
+      grant: { scope: "view", label: "link", tokenId: "t1", sessionId: "s1" },
+      expiresAt,
+    });
+  });
+
+  it("rejects tampered, expired and foreign cookies", () => {
+    const expiresAt = Date.now() + 60_000;
+    const value = issueSessionCookie({ scope: "view", label: "link" }, SECRET, expiresAt);
+    const [prefix, , signature] = value.split(".");
+    const forged = Buffer.from(JSON.stringify({ scope: "full", label: "link", exp: expiresAt }))
+      .toString("base64url");
+
+    expect(verifySessionCookie(`${prefix}.${forged}.${signature}`, SECRET)).toBeNull();
+    expect(verifySessionCookie(value, "another-secret")).toBeNull();
+    expect(verifySessionCookie(value, SECRET, expiresAt)).toBeNull();
+    expect(verifySessionCookie("plain-token", SECRET)).toBeNull();
+  });
+
+  it("is read from the Cookie header among others", () => {
+    const req = request({ cookie: `theme=dark; ${SESSION_COOKIE}=tss1.abc.def; other=1` });
+    expect(readSessionCookie(req)).toBe("tss1.abc.def");
+    expect(readSessionCookie(request({}))).toBeNull();
+  });
+
+  it("reads a malformed escape as no cookie rather than throwing", () => {
+    const req = request({ cookie: `${SESSION_COOKIE}=%E0%A4%A` });
+    expect(readSessionCookie(req)).toBeNull();
+  });
+
+  it("is set HttpOnly and SameSite, and Secure over HTTPS", () => {
+    const expiresAt = Date.now() + 3600_000;
+    const header = sessionCookieHeader("v", expiresAt, true);
+    expect(header).toMatch(new RegExp(`^${SESSION_COOKIE}=v; Path=/; Max-Age=(3599|3600)`));
+    expect(header).toContain("HttpOnly");
+    expect(header).toContain("SameSite=Strict");
+    expect(header).toContain("Secure");
+    expect(sessionCookieHeader("v", expiresAt, false)).not.toContain("Secure");
+  });
+});
+
+describe("originAllowed", () => {
+  it("accepts the served host and clients that send no Origin", () => {
+    expect(originAllowed(request({ host: "10.0.0.2:8089", origin: "https://10.0.0.2:8089" }))).toBe(true);
+    expect(originAllowed(request({ host: "10.0.0.2:8089" }))).toBe(true);
+  });
+
+  it("refuses other sites", () => {
+    expect(originAllowed(request({ host: "10.0.0.2:8089", origin: "https://evil.example" }))).toBe(false);
+    expect(originAllowed(request({ host: "10.0.0.2:8089", origin: "null" }))).toBe(false);
+  });
+});
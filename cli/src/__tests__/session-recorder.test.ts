@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  mkdtempSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  utimesSync,
+  existsSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  SessionRecorder,
+  listRecordings,
+  pruneRecordings,
+} from "../session/session-recorder.js";
+import { ManagedSession } from "../session/managed-session.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "terminalsync-rec-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function readCast(path: string): unknown[] {
+  return readFileSync(path, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("SessionRecorder", () => {
+  it("writes an asciicast v2 header", () => {
+    const rec = new SessionRecorder({ dir }, "abc", {
+      cols: 100,
+      rows: 30,
+      title: "demo",
+      shell: "/bin/sh",
+    });
+    rec.close();
+
+    const [header] = readCast(rec.path) as any[];
+    expect(header.version).toBe(2);
+    expect(header.width).toBe(100);
+    expect(header.height).toBe(30);
+    expect(header.title).toBe("demo");
+    expect(typeof header.timestamp).toBe("number");
+  });
+
+  it("records output and resize events with increasing timestamps", () => {
+    const rec = new SessionRecorder({ dir }, "abc", {
+      cols: 80,
+      rows: 24,
+      title: "demo",
+      shell: "/bin/sh",
+    });
+    rec.output("hello\r\n");
+    rec.resize(120, 40);
+    rec.output("world");
+    rec.close();
+
+    const events = readCast(rec.path).slice(1) as [number, string, string][];
+    expect(events.map((e) => [e[1], e[2]])).toEqual([
+      ["o", "hello\r\n"],
+      ["r", "120x40"],
+      ["o", "world"],
+    ]);
+    expect(events[2][0]).toBeGreaterThanOrEqual(events[0][0]);
+  });
+
+  it("ignores writes after close", () => {
+    const rec = new SessionRecorder({ dir }, "abc", {
+      cols: 80,
+      rows: 24,
+      title: "demo",
+      shell: "/bin/sh",
+    });
+    rec.close();
+    rec.output("late");
+    expect(readCast(rec.path)).toHaveLength(1);
+  });
+});
+
+describe("listRecordings", () => {
+  it("lists cast files newest first with their session id", () => {
+    writeFileSync(join(dir, "2024-01-01T00-00-00-000Z_old.cast"), "{}\n");
+    writeFileSync(join(dir, "2024-01-02T00-00-00-000Z_new.cast"), "{}\n");
+    writeFileSync(join(dir, "notes.txt"), "ignored");
+    utimesSync(join(dir, "2024-01-01T00-00-00-000Z_old.cast"), 1000, 1000);
+
+    const recs = listRecordings(dir);
+    expect(recs.map((r) => r.sessionId)).toEqual(["new", "old"]);
+  });
+
+  it("returns an empty list for a missing directory", () => {
+    expect(listRecordings(join(dir, "missing"))).toEqual([]);
+  });
+});
+
+describe("pruneRecordings", () => {
+  it("deletes recordings older than the max age", () => {
+    const old = join(dir, "a_old.cast");
+    const fresh = join(dir, "b_fresh.cast");
+    writeFileSync(old, "x");
+    writeFileSync(fresh, "x");
+    const twoDaysAgo = (Date.now() - 2 * 86_400_000) / 1000;
+    utimesSync(old, twoDaysAgo, twoDaysAgo);
+
+    const deleted = pruneRecordings({ dir, maxAgeMs: 86_400_000 });
+    expect(deleted).toEqual(["a_old.cast"]);
+    expect(existsSync(fresh)).toBe(true);
+  });
+
+  it("deletes the oldest recordings beyond the size budget", () => {
+    for (const [name, age] of [["a.cast", 3], ["b.cast", 2], ["c.cast", 1]] as const) {
+      const path = join(dir, name);
+      writeFileSync(path, "x".repeat(100));
+      const t = (Date.now() - age * 1000) / 1000;
+      utimesSync(path, t, t);
+    }
+
+    const deleted = pruneRecordings({ dir, maxBytes: 250 });
+    expect(deleted).toEqual(["a.cast"]);
+    expect(listRecordings(dir).map((r) => r.file)).toEqual(["c.cast", "b.cast"]);
+  });
+});
+
+describe("ManagedSession recording", () => {
+  it("records PTY output when enabled", async () => {
+    const s = new ManagedSession({
+      name: "recorded",
+      shell: process.env.SHELL ?? "/bin/sh",
+      cols: 80,
+      rows: 24,
+      recording: { dir },
+    });
+    const path = s.getRecordingPath()!;
+    expect(path).not.toBeNull();
+
+    const exited = new Promise<void>((resolve) => s.on("exit", () => resolve()));
+    s.write("echo recorded-marker\n");
+    s.write("exit\n");
+    await exited;
+
+    const output = (readCast(path).slice(1) as [number, string, string][])
+      .filter((e) => e[1] === "o")
+      .map((e) => e[2])
+      .join("");
+    expect(output).toContain("recorded-marker");
+    expect(s.getRecordingPath()).toBeNull();
+  });
+
+  it("does not record by default", () => {
+    const s = new ManagedSession({
+      name: "plain",
+      shell: process.env.SHELL ?? "/bin/sh",
+      cols: 80,
+      rows: 24,
+    });
+    expect(s.getRecordingPath()).toBeNull();
+    s.kill();
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  handleSessionsRequest,
+  isSessionsRoute,
+  type InputLimit,
+} from "../server/sessions-api.js";
+import { authenticate, extractToken } from "../server/auth.js";
+import { TokenRegistry } from "../server/token-registry.js";
+import { ManagedSessionStore } from "../session/managed-session-store.js";
+import { AuditLog } from "../session/audit-log.js";
+import type { TmuxProvider } from "../tmux/tmux-provider.js";
+import type { ServerMessage } from "../protocol/messages.js";
+import type { Config } from "../config.js";
+import { TEST_TOKEN, VIEW_TOKEN, testConfig } from "./test-config.js";
+
+let dir: string;
+let config: Config;
+let registry: TokenRegistry;
+let store: ManagedSessionStore;
+let audit: AuditLog;
+let broadcasts: { msg: ServerMessage; sessionId?: string }[];
+let tmux: TmuxProvider;
+let server: Server;
+let base: string;
+
+// Keeps the tests away from any tmux server on the machine
+const noTmux = { listSessions: async () => [] } as unknown as TmuxProvider;
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(tmpdir(), "terminalsync-sessions-api-"));
+  registry = new TokenRegistry(join(dir, "tokens.json"));
+  store = new ManagedSessionStore();
+  audit = new AuditLog({ file: join(dir, "audit.jsonl"), redact: "none" });
+  broadcasts = [];
+  tmux = noTmux;
+  config = testConfig({ recordingsDir: join(dir, "recordings") });
+
+  const inputLimits = new Map<string, InputLimit>();
+  server = createServer((req, res) => {
+    const pathname = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+    if (!isSessionsRoute(pathname)) {
+      res.writeHead(418);
+      res.end();
+      return;
+    }
+    const grant = authenticate(extractToken(req), config, registry);
+    if (!grant) {
+      res.writeHead(401);
+      res.end();
+      return;
+    }
+    void handleSessionsRequest(req, res, pathname, grant, {
+      config,
+      store,
+      tmux,
+      hub: {
+        broadcast: (msg, sessionId) => broadcasts.push({ msg, sessionId }),
+        subscribeSessions() {},
+      },
+      audit,
+      address: "127.0.0.1",
+      inputLimits,
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const addr = server.address();
+  base = `http://127.0.0.1:${typeof addr === "object" ? addr!.port : 0}`;
+});
+
+afterEach(async () => {
+  store.shutdown();
+  audit.close();
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function api(path: string, token: string, method = "GET", body?: unknown): Promise<Response> {
+  return fetch(base + path, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+function type(id: string, token: string, data = "x"): Promise<Response> {
+  return api(`/api/sessions/${id}/input`, token, "POST", { data });
+}
+
+async function create(body: Record<string, unknown> = {}): Promise<{ id: string; name: string }> {
+  const res = await api("/api/sessions", TEST_TOKEN, "POST", body);
+  expect(res.status).toBe(201);
+  return (await res.json()) as { id: string; name: string };
+}
+
+async function screenText(id: string, token = TEST_TOKEN): Promise<string> {
+  const res = await api(`/api/sessions/${id}/screen`, token);
+  expect(res.status).toBe(200);
+  return ((await res.json()) as { text: string }).text;
+}
+
+async function waitForScreen(id: string, text: string, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!(await screenText(id)).includes(text)) {
+    if (Date.now() - start > timeoutMs) throw new Error(`Timed out waiting for ${text}`);
+    await new Promise((r) => setTimeout(r, 50));
+  }
+}
+
+describe("sessions API", () => {
+  it("rejects requests without a valid token", async () => {
+    expect((await api("/api/sessions", "wrong")).status).toBe(401);
+  });
+
+  it("creates, lists and describes sessions", async () => {
+    const session = await create({ name: "ci", cols: 100, rows: 30 });
+    expect(session.name).toBe("ci");
+
+    const list = (await (await api("/api/sessions", VIEW_TOKEN)).json()) as {
+      sessions: { id: string }[];
+    };
+    expect(list.sessions.map((s) => s.id)).toEqual([session.id]);
+
+    const info = await api(`/api/sessions/${session.id}`, VIEW_TOKEN);
+    expect(info.status).toBe(200);
+    expect(await info.json()).toMatchObject({ id: session.id, source: "managed" });
+    expect((await api("/api/sessions/missing", TEST_TOKEN)).status).toBe(404);
+  });
+
+  it("types input and reads the screen back as text", async () => {
+    const { id } = await create({ cols: 80, rows: 24 });
+    expect((await type(id, TEST_TOKEN, "echo api-$((40+2))\r")).status).toBe(204);
+    await waitForScreen(id, "api-42");
+
+    const screen = (await (await api(`/api/sessions/${id}/screen`, TEST_TOKEN)).json()) as {
+      cols: number;
+      rows: number;
+      text: string;
+    };
+    expect(screen).toMatchObject({ cols: 80, rows: 24 });
+    expect(screen.text).not.toContain("\x1b");
+  });
+
+  it("kills sessions", async () => {
+    const { id } = await create();
+    expect((await api(`/api/sessions/${id}`, TEST_TOKEN, "DELETE")).status).toBe(204);
+    expect(store.get(id)).toBeUndefined();
+    expect((await api(`/api/sessions/${id}`, TEST_TOKEN)).status).toBe(404);
+  });
+
+  it("announces killed tmux sessions only to clients that can see them", async () => {
+    tmux = {
+      listSessions: async () => [{ id: "tmux:work" }],
+      killSession: async () => {},
+    } as unknown as TmuxProvider;
+    expect((await api("/api/sessions/tmux:work", TEST_TOKEN, "DELETE")).status).toBe(204);
+    expect(broadcasts).toEqual([
+      {
+        msg: { type: "session_removed", seq: 0, payload: { id: "tmux:work" } },
+        sessionId: "tmux:work",
+      },
+    ]);
+  });
+
+  it("lets view-only tokens read but not type, create or kill", async () => {
+    const { id } = await create();
+    expect((await api(`/api/sessions/${id}/screen`, VIEW_TOKEN)).status).toBe(200);
+    expect((await type(id, VIEW_TOKEN)).status).toBe(403);
+    expect((await api("/api/sessions", VIEW_TOKEN, "POST", {})).status).toBe(403);
+    expect((await api(`/api/sessions/${id}`, VIEW_TOKEN, "DELETE")).status).toBe(403);
+  });
+
+  it("limits session-scoped tokens to their own session", async () => {
+    const own = await create();
+    const other = await create();
+    const { token } = registry.create({ label: "link", scope: "full", sessionId: own.id });
+
+    const list = (await (await api("/api/sessions", token)).json()) as {
+      sessions: { id: string }[];
+    };
+    expect(list.sessions.map((s) => s.id)).toEqual([own.id]);
+    expect((await type(own.id, token)).status).toBe(204);
+    expect((await api(`/api/sessions/${other.id}`, token)).status).toBe(403);
+    expect((await api(`/api/sessions/${own.id}`, token, "DELETE")).status).toBe(403);
+  });
+
+  it("refuses malformed requests", async () => {
+    const { id } = await create();
+    expect((await api("/api/sessions", TEST_TOKEN, "POST", "{nope")).status).toBe(400);
+    expect((await api("/api/sessions", TEST_TOKEN, "POST", { cols: -1 })).status).toBe(400);
+    // Not in allowedShells
+    const zsh = await api("/api/sessions", TEST_TOKEN, "POST", { shell: "/bin/zsh" });
+    expect(zsh.status).toBe(403);
+    expect((await api(`/api/sessions/${id}/input`, TEST_TOKEN, "POST", {})).status).toBe(400);
+    expect((await api(`/api/sessions/${id}/nope`, TEST_TOKEN)).status).toBe(404);
+    expect((await api(`/api/sessions/${id}/screen`, TEST_TOKEN, "POST", {})).status).toBe(405);
+  });
+
+  it("refuses input to single-writer sessions", async () => {
+    const { id } = await create({ singleWriter: true });
+    expect((await type(id, TEST_TOKEN)).status).toBe(409);
+  });
+
+  it("rate-limits input per token", async () => {
+    config.inputRateMessages = 2;
+    const { id } = await create();
+    const { token } = registry.create({ label: "other", scope: "full" });
+
+    expect((await type(id, TEST_TOKEN)).status).toBe(204);
+    expect((await type(id, TEST_TOKEN)).status).toBe(204);
+    expect((await type(id, TEST_TOKEN)).status).toBe(429);
+    // Another token has buckets of its own
+    expect((await type(id, token)).status).toBe(204);
+  });
+
+  it("writes create, input and kill to the audit log", async () => {
+    const { id } = await create();
+    await type(id, TEST_TOKEN, "ls\r");
+    await api(`/api/sessions/${id}`, TEST_TOKEN, "DELETE");
+
+    const records = readFileSync(join(dir, "audit.jsonl"), "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records.map((r) => r.event)).toEqual(["create", "input", "kill"]);
+    expect(records[1]).toMatchObject({
+      clientId: "api",
+      label: "master",
+      sessionId: id,
+      data: "ls\r",
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync, realpathSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolveSpawn, SpawnNotAllowedError } from "../session/spawn-policy.js";
+import type { Config } from "../config.js";
+import { testConfig } from "./test-config.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = realpathSync(mkdtempSync(join(tmpdir(), "terminalsync-spawn-")));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function config(overrides?: Partial<Config>): Config {
+  return testConfig({ allowedShells: ["/bin/sh", "/bin/bash"], ...overrides });
+}
+
+describe("resolveSpawn", () => {
+  it("defaults to the configured shell", () => {
+    expect(resolveSpawn({}, config())).toEqual({
+      file: "/bin/sh",
+      args: [],
+      inheritEnv: true,
+    });
+  });
+
+  it("splits a command into file and args", () => {
+    const spec = resolveSpawn({ command: ["npm", "test", "--", "-u"] }, config());
+    expect(spec.file).toBe("npm");
+    expect(spec.args).toEqual(["test", "--", "-u"]);
+  });
+
+  it("matches command allowlist entries exactly", () => {
+    const cfg = config({ allowedCommands: ["npm", "/usr/bin/make"] });
+    expect(resolveSpawn({ command: ["npm"] }, cfg).file).toBe("npm");
+    expect(resolveSpawn({ command: ["/usr/bin/make"] }, cfg).file).toBe("/usr/bin/make");
+    expect(() => resolveSpawn({ command: ["/tmp/npm"] }, cfg)).toThrow(SpawnNotAllowedError);
+    expect(() => resolveSpawn({ command: ["make"] }, cfg)).toThrow(SpawnNotAllowedError);
+  });
+
+  it("disables commands with an empty allowlist", () => {
+    expect(() =>
+      resolveSpawn({ command: ["ls"] }, config({ allowedCommands: [] })),
+    ).toThrow("Command not allowed: ls");
+  });
+
+  it("rejects malformed commands", () => {
+    expect(() => resolveSpawn({ command: [] }, config())).toThrow(SpawnNotAllowedError);
+    expect(() => resolveSpawn({ command: "ls" as any }, config())).toThrow(SpawnNotAllowedError);
+    expect(() => resolveSpawn({ command: ["ls", 1 as any] }, config())).toThrow(SpawnNotAllowedError);
+  });
+
+  it("only accepts allowlisted shells", () => {
+    expect(resolveSpawn({ shell: "/bin/bash" }, config()).file).toBe("/bin/bash");
+    expect(() => resolveSpawn({ shell: "/usr/bin/python3" }, config())).toThrow(
+      "Shell not allowed",
+    );
+  });
+
+  it("refuses a command and a shell together", () => {
+    expect(() => resolveSpawn({ command: ["ls"], shell: "/bin/sh" }, config())).toThrow(
+      SpawnNotAllowedError,
+    );
+  });
+
+  it("requires cwd to be an existing absolute directory", () => {
+    expect(resolveSpawn({ cwd: dir }, config()).cwd).toBe(dir);
+    expect(() => resolveSpawn({ cwd: "relative" }, config())).toThrow("must be absolute");
+    expect(() => resolveSpawn({ cwd: join(dir, "missing") }, config())).toThrow(
+      "No such directory",
+    );
+    writeFileSync(join(dir, "file"), "");
+    expect(() => resolveSpawn({ cwd: join(dir, "file") }, config())).toThrow(
+      "Not a directory",
+    );
+  });
+
+  it("confines cwd to allowed roots, following symlinks", () => {
+    const root = join(dir, "projects");
+    const outside = join(dir, "outside");
+    mkdirSync(join(root, "app"), { recursive: true });
+    mkdirSync(outside);
+    symlinkSync(outside, join(root, "escape"));
+    const cfg = config({ allowedCwds: [root] });
+
+    expect(resolveSpawn({ cwd: join(root, "app") }, cfg).cwd).toBe(join(root, "app"));
+    expect(resolveSpawn({ cwd: root }, cfg).cwd).toBe(root);
+    expect(() => resolveSpawn({ cwd: outside }, cfg)).toThrow("not allowed");
+    expect(() => resolveSpawn({ cwd: join(root, "escape") }, cfg)).toThrow("not allowed");
+    expect(() => resolveSpawn({ cwd: `${root}-other` }, cfg)).toThrow();
+  });
+
+  it("validates env names against the allowlist and reserved prefixes", () => {
+    expect(resolveSpawn({ env: { FOO: "1" } }, config()).env).toEqual({ FOO: "1" });
+    expect(() => resolveSpawn({ env: { LD_PRELOAD: "x" } }, config())).toThrow(
+      SpawnNotAllowedError,
+    );
+    expect(() => resolveSpawn({ env: { TERMINALSYNC_TOKEN: "x" } }, config())).toThrow(
+      SpawnNotAllowedError,
+    );
+    expect(() => resolveSpawn({ env: { "BAD-NAME": "x" } }, config())).toThrow(
+      SpawnNotAllowedError,
+    );
+    expect(() => resolveSpawn({ env: { FOO: 1 as any } }, config())).toThrow(
+      SpawnNotAllowedError,
+    );
+
+    const cfg = config({ allowedEnv: ["NODE_ENV"] });
+    expect(resolveSpawn({ env: { NODE_ENV: "test" } }, cfg).env).toEqual({ NODE_ENV: "test" });
+    expect(() => resolveSpawn({ env: { FOO: "1" } }, cfg)).toThrow(SpawnNotAllowedError);
+  });
+});
@@ -0,0 +1,41 @@
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Config } from "../config.js";
+
+export const TEST_TOKEN = "test-token-12345";
+export const VIEW_TOKEN = "view-token-67890";
+
+/** A complete Config for tests: nothing recorded, audited or limited unless overridden. */
+export function testConfig(overrides?: Partial<Config>): Config {
+  return {
+    port: 0,
+    host: "127.0.0.1",
+    authToken: TEST_TOKEN,
+    viewToken: VIEW_TOKEN,
+    maxClients: 10,
+    defaultScrollbackLines: 100,
+    defaultShell: "/bin/sh",
+    tunnel: false,
+    tls: false,
+    recordSessions: false,
+    recordingsDir: join(tmpdir(), "terminalsync-test-recordings"),
+    recordingsMaxBytes: 10 * 1024 * 1024,
+    recordingsMaxAgeDays: 1,
+    audit: false,
+    auditRedact: "none",
+    allowedShells: ["/bin/sh"],
+    allowedCommands: ["*"],
+    allowedCwds: ["*"],
+    allowedEnv: ["*"],
+    outputBatchMs: 0,
+    outputBatchBytes: 64 * 1024,
+    compression: false,
+    maxBufferedBytes: 1024 * 1024,
+    sessionHours: 24,
+    authMaxFailures: 5,
+    authLockoutSeconds: 30,
+    inputRateMessages: 0,
+    inputRateBytes: 0,
+    ...overrides,
+  };
+}
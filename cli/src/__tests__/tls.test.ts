@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { X509Certificate } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:https";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WebSocketServer, WebSocket } from "ws";
+import { ensureCertificates, readCertificates } from "../server/tls.js";
+
+const dirs: string[] = [];
+
+function tlsDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), "terminalsync-tls-"));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+  dirs.length = 0;
+});
+
+describe("ensureCertificates", () => {
+  it("creates a CA and a server certificate it signed for every host", () => {
+    const dir = tlsDir();
+    const tls = ensureCertificates(dir, ["localhost", "127.0.0.1", "192.168.1.20"]);
+
+    const ca = new X509Certificate(tls.ca);
+    const cert = new X509Certificate(tls.cert);
+    expect(ca.ca).toBe(true);
+    expect(cert.checkIssued(ca)).toBe(true);
+    expect(cert.verify(ca.publicKey)).toBe(true);
+    expect(cert.checkHost("localhost")).toBe("localhost");
+    expect(cert.checkIP("192.168.1.20")).toBe("192.168.1.20");
+    expect(tls.fingerprint).toBe(cert.fingerprint256);
+    expect(readCertificates(dir)?.fingerprint).toBe(tls.fingerprint);
+  });
+
+  it("reuses certificates that still cover the hosts", () => {
+    const dir = tlsDir();
+    const first = ensureCertificates(dir, ["localhost", "127.0.0.1"]);
+    const second = ensureCertificates(dir, ["127.0.0.1"]);
+    expect(second.fingerprint).toBe(first.fingerprint);
+  });
+
+  it("reissues the server certificate from the same CA when an address appears", () => {
+    const dir = tlsDir();
+    const first = ensureCertificates(dir, ["localhost", "127.0.0.1"]);
+    const second = ensureCertificates(dir, ["localhost", "127.0.0.1", "10.0.0.5"]);
+
+    expect(second.fingerprint).not.toBe(first.fingerprint);
+    expect(second.ca.equals(first.ca)).toBe(true);
+    expect(new X509Certificate(second.cert).checkIP("10.0.0.5")).toBe("10.0.0.5");
+  });
+
+  it("returns null before any certificate exists", () => {
+    expect(readCertificates(tlsDir())).toBeNull();
+  });
+
+  it("serves WSS that clients trusting the CA can reach", async () => {
+    const tls = ensureCertificates(tlsDir(), ["localhost", "127.0.0.1"]);
+    const server = createServer({ key: tls.key, cert: tls.cert });
+    const wss = new WebSocketServer({ server });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as { port: number };
+
+    const connect = (ca?: Buffer) =>
+      new Promise<string>((resolve) => {
+        const ws = new WebSocket(`wss://127.0.0.1:${port}`, { ca });
+        ws.on("open", () => {
+          ws.close();
+          resolve("open");
+        });
+        ws.on("error", (err) => resolve((err as NodeJS.ErrnoException).code ?? err.message));
+      });
+
+    expect(await connect(tls.ca)).toBe("open");
+    // Without the CA the self-signed chain is refused
+    expect(await connect()).not.toBe("open");
+
+    wss.close();
+    server.close();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { TmuxWatcher } from "../tmux/tmux-watcher.js";
+import type { SessionInfo } from "../protocol/messages.js";
+
+const watchers: TmuxWatcher[] = [];
+
+function tmuxSession(name: string, attachedClients = 0): SessionInfo {
+  return {
+    id: `tmux:${name}`,
+    name,
+    status: "running",
+    attachedClients,
+    source: "tmux",
+    createdAt: 1_700_000_000_000,
+    lastActivityAt: 1_700_000_000_000,
+  };
+}
+
+/** A watcher over a fake tmux whose sessions the test sets directly. */
+function createWatcher(initial: SessionInfo[] = []) {
+  const fake = { sessions: initial, calls: 0 };
+  const watcher = new TmuxWatcher(
+    {
+      listSessions: async () => {
+        fake.calls++;
+        return fake.sessions;
+      },
+    },
+    // Long enough that only the test's own polls run
+    60_000,
+  );
+  const events: Array<[string, string]> = [];
+  watcher.on("added", (s: SessionInfo) => events.push(["added", s.id]));
+  watcher.on("updated", (s: SessionInfo) => events.push(["updated", s.id]));
+  watcher.on("removed", (id: string) => events.push(["removed", id]));
+  watchers.push(watcher);
+  return { watcher, fake, events };
+}
+
+afterEach(() => {
+  for (const w of watchers) w.stop();
+  watchers.length = 0;
+});
+
+describe("TmuxWatcher", () => {
+  it("takes the first poll as a baseline without emitting", async () => {
+    const { watcher, events } = createWatcher([tmuxSession("a")]);
+    watcher.start();
+    await watcher.poll();
+    expect(events).toEqual([]);
+  });
+
+  it("emits only what changed between polls", async () => {
+    const { watcher, fake, events } = createWatcher([tmuxSession("a"), tmuxSession("b")]);
+    watcher.start();
+    await watcher.poll();
+
+    fake.sessions = [tmuxSession("a", 1), tmuxSession("c")];
+    await watcher.poll();
+    expect(events).toEqual([
+      ["updated", "tmux:a"],
+      ["added", "tmux:c"],
+      ["removed", "tmux:b"],
+    ]);
+
+    events.length = 0;
+    await watcher.poll();
+    expect(events).toEqual([]);
+  });
+
+  it("reports a new directory or command but not activity alone", async () => {
+    const { watcher, fake, events } = createWatcher([tmuxSession("a")]);
+    watcher.start();
+    await watcher.poll();
+
+    fake.sessions = [{ ...tmuxSession("a"), lastActivityAt: Date.now() }];
+    await watcher.poll();
+    expect(events).toEqual([]);
+
+    fake.sessions = [{ ...tmuxSession("a"), cwd: "/srv/app", command: "npm" }];
+    await watcher.poll();
+    expect(events).toEqual([["updated", "tmux:a"]]);
+  });
+
+  it("shares one tmux call between overlapping polls", async () => {
+    const { watcher, fake } = createWatcher();
+    watcher.start();
+    await Promise.all([watcher.poll(), watcher.poll()]);
+    expect(fake.calls).toBe(1);
+  });
+
+  it("forgets its state when stopped", async () => {
+    const { watcher, fake, events } = createWatcher([tmuxSession("a")]);
+    watcher.start();
+    await watcher.poll();
+    watcher.stop();
+
+    fake.sessions = [];
+    await watcher.poll();
+    expect(events).toEqual([]);
+
+    // Restarting takes a fresh baseline
+    fake.sessions = [tmuxSession("b")];
+    watcher.start();
+    await watcher.poll();
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { TokenRegistry } from "../server/token-registry.js";
+
+let dir: string;
+let registry: TokenRegistry;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "terminalsync-tokens-"));
+  registry = new TokenRegistry(join(dir, "tokens.json"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("TokenRegistry", () => {
+  it("starts empty when the file does not exist", () => {
+    expect(registry.list()).toEqual([]);
+  });
+
+  it("creates a token that verifies to its entry", () => {
+    const { token, entry } = registry.create({ label: "laptop", scope: "full" });
+    expect(entry.label).toBe("laptop");
+    expect(entry.scope).toBe("full");
+    expect(entry.expiresAt).toBeNull();
+    expect(registry.verify(token)?.id).toBe(entry.id);
+  });
+
+  it("does not store the secret in plaintext", () => {
+    const { token } = registry.create({ label: "laptop", scope: "view" });
+    const contents = readFileSync(registry.path, "utf-8");
+    expect(contents).not.toContain(token);
+  });
+
+  it("rejects unknown tokens", () => {
+    registry.create({ label: "laptop", scope: "full" });
+    expect(registry.verify("not-a-token")).toBeNull();
+  });
+
+  it("rejects expired tokens", () => {
+    const { token, entry } = registry.create({
+      label: "short",
+      scope: "full",
+      expiresAt: new Date(Date.now() + 1000),
+    });
+    expect(registry.verify(token)).not.toBeNull();
+    expect(registry.verify(token, Date.now() + 2000)).toBeNull();
+    expect(registry.isActive(entry.id, Date.now() + 2000)).toBe(false);
+  });
+
+  it("revokes tokens by id", () => {
+    const { token, entry } = registry.create({ label: "phone", scope: "view" });
+    expect(registry.revoke(entry.id)?.label).toBe("phone");
+    expect(registry.verify(token)).toBeNull();
+    expect(registry.isActive(entry.id)).toBe(false);
+    expect(registry.revoke(entry.id)).toBeNull();
+  });
+
+  it("revokes every token bound to a session", () => {
+    const bound = registry.create({ label: "a", scope: "full", sessionId: "s1" });
+    registry.create({ label: "b", scope: "view", sessionId: "s1" });
+    const unrelated = registry.create({ label: "c", scope: "full", sessionId: "s2" });
+
+    expect(bound.entry.sessionId).toBe("s1");
+    expect(registry.revokeSession("s1")).toBe(2);
+    expect(registry.verify(bound.token)).toBeNull();
+    expect(registry.verify(unrelated.token)?.sessionId).toBe("s2");
+  });
+
+  it("picks up changes written by another instance", () => {
+    const other = new TokenRegistry(registry.path);
+    const { token, entry } = other.create({ label: "cli", scope: "full" });
+    expect(registry.verify(token)?.id).toBe(entry.id);
+
+    other.revoke(entry.id);
+    expect(registry.verify(token)).toBeNull();
+  });
+});
@@ -9,9 +9,10 @@ export function ensureConfigFile(): string {
   if (!existsSync(configPath)) {
     mkdirSync(tsDir, { recursive: true });
     const genToken = randomBytes(32).toString("hex");
+    const genViewToken = randomBytes(32).toString("hex");
     writeFileSync(
       configPath,
-      `TERMINALSYNC_TOKEN=${genToken}\nTERMINALSYNC_HOST=0.0.0.0\nTERMINALSYNC_PORT=8089\nTERMINALSYNC_TUNNEL=true\n`
+      `TERMINALSYNC_TOKEN=${genToken}\nTERMINALSYNC_VIEW_TOKEN=${genViewToken}\nTERMINALSYNC_HOST=0.0.0.0\nTERMINALSYNC_PORT=8089\nTERMINALSYNC_TUNNEL=true\n`
     );
   }
   return configPath;
@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import { hostname, homedir, networkInterfaces } from "os";
+import { hostname, homedir, networkInterfaces, userInfo } from "os";
 import { readFileSync, writeFileSync, openSync, existsSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -11,6 +11,11 @@ import qrcode from "qrcode-terminal";
 import * as p from "@clack/prompts";
 import { loadConfigFile, setConfigValue } from "./config-file.js";
 import { send, die, openWs } from "./ws-client.js";
+import { TokenRegistry, isExpired } from "../server/token-registry.js";
+import { filterEnv, parseDenylist } from "./env-filter.js";
+import { RESIZE_POLICIES, type ResizePolicy } from "../protocol/messages.js";
+import { defaultTlsDir, readCertificates } from "../server/tls.js";
+import { defaultAuditPath, readAuditLog, type AuditRecord } from "../session/audit-log.js";
 
 // --- Config (env vars with config-file fallback) ---
 
@@ -18,10 +23,33 @@ const fileConfig = loadConfigFile();
 const host = process.env.TERMINALSYNC_HOST ?? fileConfig.TERMINALSYNC_HOST ?? "0.0.0.0";
 const port = process.env.TERMINALSYNC_PORT ?? fileConfig.TERMINALSYNC_PORT ?? "8089";
 const token = process.env.TERMINALSYNC_TOKEN ?? fileConfig.TERMINALSYNC_TOKEN;
+const viewToken = process.env.TERMINALSYNC_VIEW_TOKEN ?? fileConfig.TERMINALSYNC_VIEW_TOKEN;
+const envDenylist = parseDenylist(
+  process.env.TERMINALSYNC_ENV_DENYLIST ?? fileConfig.TERMINALSYNC_ENV_DENYLIST,
+);
 const tunnelEnabled = (process.env.TERMINALSYNC_TUNNEL ?? fileConfig.TERMINALSYNC_TUNNEL ?? "true") === "true";
+const tlsEnabled = (process.env.TERMINALSYNC_TLS ?? fileConfig.TERMINALSYNC_TLS ?? "false") === "true";
+const tlsDir = process.env.TERMINALSYNC_TLS_DIR ?? fileConfig.TERMINALSYNC_TLS_DIR ?? defaultTlsDir();
+
+/** The local server's address, with the scheme following TERMINALSYNC_TLS. */
+function serverUrl(scheme: "http" | "ws"): string {
+  // The certificate cannot name the wildcard bind address
+  const target = tlsEnabled && (host === "0.0.0.0" || host === "::") ? "127.0.0.1" : host;
+  return `${scheme}${tlsEnabled ? "s" : ""}://${target}:${port}`;
+}
 
 function wsUrl(): string {
-  return `ws://${host}:${port}`;
+  return serverUrl("ws");
+}
+
+/** The local CA to verify the server with; re-read each time since the server creates it. */
+function serverCa(): Buffer | undefined {
+  return tlsEnabled ? readCertificates(tlsDir)?.ca : undefined;
+}
+
+function getHealth(callback: (res: http.IncomingMessage) => void): http.ClientRequest {
+  const url = `${serverUrl("http")}/health`;
+  return tlsEnabled ? https.get(url, { ca: serverCa() }, callback) : http.get(url, callback);
 }
 
 // --- Auto-start server ---
@@ -34,7 +62,7 @@ interface HealthResponse {
 
 function checkHealth(): Promise<boolean> {
   return new Promise((resolve) => {
-    const req = http.get(`http://${host}:${port}/health`, (res) => {
+    const req = getHealth((res) => {
       res.resume();
       resolve(res.statusCode === 200);
     });
@@ -48,7 +76,7 @@ function checkHealth(): Promise<boolean> {
 
 function fetchHealth(): Promise<HealthResponse | null> {
   return new Promise((resolve) => {
-    const req = http.get(`http://${host}:${port}/health`, (res) => {
+    const req = getHealth((res) => {
       let body = "";
       res.on("data", (chunk) => { body += chunk; });
       res.on("end", () => {
@@ -107,8 +135,11 @@ async function ensureServer(): Promise<boolean> {
       detached: true,
       stdio: ["ignore", logFd, logFd],
       env: {
+        // Settings from ~/.terminalsync/config, overridable by the environment
+        ...fileConfig,
         ...process.env,
         TERMINALSYNC_TOKEN: token,
+        TERMINALSYNC_VIEW_TOKEN: viewToken ?? "",
         TERMINALSYNC_HOST: host,
         TERMINALSYNC_PORT: port,
         TERMINALSYNC_TUNNEL: tunnelEnabled ? "true" : "false",
@@ -134,7 +165,7 @@ async function ensureServer(): Promise<boolean> {
 
 async function cmdList(): Promise<void> {
   if (!(await ensureServer())) die("Cannot reach server");
-  const ws = openWs(wsUrl(), token);
+  const ws = openWs(wsUrl(), token, serverCa());
 
   ws.on("open", () => {
     send(ws, { type: "list_sessions", payload: {} });
@@ -149,13 +180,15 @@ async function cmdList(): Promise<void> {
         status: string;
         attachedClients: number;
         source: string;
+        clients?: Array<{ name: string }>;
       }>;
       if (sessions.length === 0) {
         console.log("No sessions.");
       } else {
         for (const s of sessions) {
+          const names = s.clients?.length ? `  (${s.clients.map((c) => c.name).join(", ")})` : "";
           console.log(
-            `${s.id}  ${s.name}  ${s.status}  clients=${s.attachedClients}  source=${s.source}`
+            `${s.id}  ${s.name}  ${s.status}  clients=${s.attachedClients}  source=${s.source}${names}`
           );
         }
       }
@@ -172,13 +205,15 @@ async function cmdList(): Promise<void> {
 
 async function cmdAttach(targetId: string): Promise<void> {
   if (!(await ensureServer())) die("Cannot reach server");
-  const ws = openWs(wsUrl(), token);
+  const ws = openWs(wsUrl(), token, serverCa());
   const cols = process.stdout.columns || 80;
   const rows = process.stdout.rows || 24;
   const pendingOutput: Buffer[] = [];
   let attached = false;
+  const onPeers = trackPeers(ws);
 
   ws.on("open", () => {
+    identify(ws);
     send(ws, { type: "attach", payload: { target: targetId, cols, rows } });
   });
 
@@ -192,11 +227,17 @@ async function cmdAttach(targetId: string): Promise<void> {
       return;
     }
     const msg = JSON.parse(raw.toString());
+    if (onPeers(msg)) return;
     if (msg.type === "attached") {
       attached = true;
+      // The server replays a snapshot of the whole screen — start from a clean one
+      process.stdout.write("\x1b[H\x1b[2J");
       enterRawProxy(ws);
       for (const buf of pendingOutput) process.stdout.write(buf);
       pendingOutput.length = 0;
+    } else if (msg.type === "resync") {
+      // We fell behind; a fresh snapshot of the screen follows
+      process.stdout.write("\x1b[H\x1b[2J");
     } else if (msg.type === "resized") {
       // PTY was resized by a smaller client — the shell already got SIGWINCH
       // so output will be formatted for the new size. No local action needed.
@@ -215,21 +256,90 @@ async function cmdAttach(targetId: string): Promise<void> {
   });
 }
 
-async function cmdShare(): Promise<void> {
+async function cmdShare(argv: string[]): Promise<void> {
   if (process.env.TERMINALSYNC_SESSION) return;
+  const resize = resizePolicyFlag(argv);
   checkForUpdate();
   if (!(await ensureServer())) fallbackShell();
-  const ws = openWs(wsUrl(), token);
+  const base = {
+    name: hostname(),
+    ...(argv.includes("--record") ? { record: true } : {}),
+    ...(argv.includes("--single-writer") ? { singleWriter: true } : {}),
+    ...resize,
+  };
+  // A server that restricts cwd or env still gets a plain shell
+  shareSession({ ...base, ...callerContext() }, { fallback: base });
+}
+
+async function cmdRun(argv: string[]): Promise<void> {
+  const dashIdx = argv.indexOf("--");
+  const command = dashIdx === -1 ? argv : argv.slice(dashIdx + 1);
+  const flags = dashIdx === -1 ? [] : argv.slice(0, dashIdx);
+  if (command.length === 0) {
+    die("Usage: terminalsync run [--record] [--resize <policy>] -- <command> [args...]");
+  }
+  const resize = resizePolicyFlag(flags);
+  if (!(await ensureServer())) die("Cannot reach server");
+  shareSession(
+    {
+      name: command.join(" "),
+      command,
+      ...callerContext(),
+      ...(flags.includes("--record") ? { record: true } : {}),
+      ...resize,
+    },
+    { exitWithSession: true },
+  );
+}
+
+/** `--resize <policy>` as a create_session field, or nothing to keep the server default. */
+function resizePolicyFlag(argv: string[]): { resizePolicy?: ResizePolicy } {
+  if (!argv.includes("--resize")) return {};
+  const value = flagValue(argv, "--resize");
+  if (!RESIZE_POLICIES.includes(value as ResizePolicy)) {
+    die(`--resize must be one of: ${RESIZE_POLICIES.join(", ")}`);
+  }
+  return { resizePolicy: value as ResizePolicy };
+}
+
+/**
+ * Where the shared session should start: this directory, with this shell's
+ * environment minus secret-looking variables. The server may already be
+ * running with someone else's environment, so ours replaces it entirely.
+ */
+function callerContext(): { cwd: string; env: Record<string, string>; inheritEnv: false } {
+  const { env } = filterEnv(process.env, envDenylist);
+  return { cwd: process.cwd(), env, inheritEnv: false };
+}
+
+/**
+ * Create a session from `payload`, attach to it and proxy this terminal.
+ * With `exitWithSession`, exit with the session process's status; with
+ * `fallback`, retry with that payload if the server refuses the options.
+ */
+function shareSession(
+  payload: Record<string, unknown>,
+  opts: { exitWithSession?: boolean; fallback?: Record<string, unknown> } = {},
+): void {
+  const ws = openWs(wsUrl(), token, serverCa());
   const cols = process.stdout.columns || 80;
   const rows = process.stdout.rows || 24;
-  const name = hostname();
   const pendingOutput: Buffer[] = [];
   let attached = false;
-
-  let sessionId: string | null = null;
+  let fallback = opts.fallback;
+  // The sharing terminal hears who comes and goes
+  const onPeers = trackPeers(ws, { announcePresence: true });
+
+  const create = (body: Record<string, unknown>) => {
+    send(ws, {
+      type: "create_session",
+      payload: { ...body, cols, rows, attach: true },
+    });
+  };
 
   ws.on("open", () => {
-    send(ws, { type: "create_session", payload: { name, cols, rows } });
+    identify(ws);
+    create(payload);
   });
 
   ws.on("message", (raw, isBinary) => {
@@ -242,22 +352,30 @@ async function cmdShare(): Promise<void> {
       return;
     }
     const msg = JSON.parse(raw.toString());
+    if (onPeers(msg)) return;
 
-    if (msg.type === "session_created") {
-      sessionId = msg.payload.id;
-      send(ws, { type: "attach", payload: { target: sessionId, cols, rows } });
-    } else if (msg.type === "attached") {
+    // create_session attaches us right away; "attached" follows "session_created"
+    if (msg.type === "attached") {
       attached = true;
       enterRawProxy(ws);
       for (const buf of pendingOutput) process.stdout.write(buf);
       pendingOutput.length = 0;
+    } else if (msg.type === "resync") {
+      // We fell behind; a fresh snapshot of the screen follows
+      process.stdout.write("\x1b[H\x1b[2J");
     } else if (msg.type === "resized") {
       // PTY was resized by a smaller client — the shell already got SIGWINCH
       // so output will be formatted for the new size. No local action needed.
     } else if (msg.type === "detached") {
       cleanup();
-      process.exit(0);
+      process.exit(opts.exitWithSession ? (msg.payload.exitCode ?? 0) : 0);
     } else if (msg.type === "error") {
+      if (!attached && fallback && msg.payload.code === "NOT_ALLOWED") {
+        warn(`Server refused this shell's directory or environment: ${msg.payload.message}`);
+        create(fallback);
+        fallback = undefined;
+        return;
+      }
       die(`Error: ${msg.payload.message}`);
     }
   });
@@ -269,6 +387,102 @@ async function cmdShare(): Promise<void> {
   });
 }
 
+// --- Presence and input control ---
+
+function notice(text: string): void {
+  process.stderr.write(`\r\n\x1b[2m[terminalsync] ${text}\x1b[0m\r\n`);
+}
+
+function identify(ws: WebSocket): void {
+  let user: string;
+  try {
+    user = userInfo().username;
+  } catch {
+    user = process.env.USER ?? "user";
+  }
+  send(ws, { type: "identify", payload: { name: `${user}@${hostname()}`, device: "cli" } });
+}
+
+/**
+ * Follow who is attached and the session's single-writer state, reporting
+ * changes between the lines of output. Typing without control asks for it
+ * once. Returns a handler that says whether it consumed a server message.
+ */
+function trackPeers(
+  ws: WebSocket,
+  opts: { announcePresence?: boolean } = {},
+): (msg: any) => boolean {
+  let sessionId: string | null = null;
+  let clientId: string | null = null;
+  let controller: string | null = null;
+  let requested = false;
+  let lastRateNotice = 0;
+  const names = new Map<string, string>();
+  const who = (id: string | null) =>
+    id === null
+      ? "Nobody"
+      : id === clientId
+        ? "You"
+        : names.get(id) ?? `Client ${id.slice(0, 8)}`;
+
+  return (msg) => {
+    switch (msg.type) {
+      case "attached":
+        sessionId = msg.payload.target;
+        clientId = msg.payload.clientId;
+        controller = msg.payload.controller;
+        return false;
+      case "presence": {
+        if (msg.payload.id !== sessionId) return true;
+        for (const c of msg.payload.clients) names.set(c.clientId, c.name);
+        const { joined, left } = msg.payload;
+        const watching = `${msg.payload.clients.length} attached`;
+        if (opts.announcePresence && joined && joined.clientId !== clientId) {
+          const mode = joined.readOnly ? "watching" : "joined";
+          notice(`${joined.name} (${joined.device}) ${mode} · ${watching}`);
+        } else if (opts.announcePresence && left && left.clientId !== clientId) {
+          notice(`${left.name} left · ${watching}`);
+        }
+        return true;
+      }
+      case "control_changed":
+        controller = msg.payload.controller;
+        requested = false;
+        notice(
+          msg.payload.singleWriter
+            ? `${who(controller)} ${controller === clientId ? "have" : "has"} control`
+            : "Everyone can type",
+        );
+        return true;
+      case "control_requested":
+        notice(`${who(msg.payload.clientId)} asked for control; grant or deny it from the web UI`);
+        return true;
+      case "control_denied":
+        requested = false;
+        notice("Your request for control was denied");
+        return true;
+      case "error":
+        if (msg.payload.code === "RATE_LIMITED") {
+          // Dropped input is not worth ending the session over
+          if (Date.now() - lastRateNotice > 5000) {
+            lastRateNotice = Date.now();
+            notice("Input dropped: sending faster than the server allows");
+          }
+          return true;
+        }
+        if (msg.payload.code !== "NOT_CONTROLLER") return false;
+        if (!requested) {
+          requested = true;
+          send(ws, { type: "request_control", payload: {} });
+          notice(`${who(controller)} has control; asking for it`);
+        }
+        return true;
+      default:
+        return false;
+    }
+  };
+}
+
 // --- Raw-mode proxy ---
 
 let rawMode = false;
@@ -333,6 +547,7 @@ async function cmdConfig(): Promise<void> {
   const currentConfig = loadConfigFile();
   const currentTunnel = (currentConfig.TERMINALSYNC_TUNNEL ?? "true") === "true";
   const currentPort = currentConfig.TERMINALSYNC_PORT ?? "8089";
+  const currentTls = (currentConfig.TERMINALSYNC_TLS ?? "false") === "true";
 
   const enableTunnel = await p.confirm({
     message: "Enable tunnel? (share outside local network)",
@@ -343,6 +558,15 @@ async function cmdConfig(): Promise<void> {
     process.exit(0);
   }
 
+  const enableTls = await p.confirm({
+    message: "Encrypt local network connections? (HTTPS with a self-signed certificate)",
+    initialValue: currentTls,
+  });
+  if (p.isCancel(enableTls)) {
+    p.cancel("Config cancelled.");
+    process.exit(0);
+  }
+
   const newPort = await p.text({
     message: "Server port",
     initialValue: currentPort,
@@ -353,6 +577,7 @@ async function cmdConfig(): Promise<void> {
   }
 
   setConfigValue("TERMINALSYNC_TUNNEL", enableTunnel ? "true" : "false");
+  setConfigValue("TERMINALSYNC_TLS", enableTls ? "true" : "false");
   setConfigValue("TERMINALSYNC_PORT", newPort);
 
   p.outro("Config saved!");
@@ -370,16 +595,25 @@ function getLanIp(): string {
   return host; // fall back to configured host
 }
 
-function buildWebUrl(opts: { sessionId?: string; tunnelUrl?: string; lanHost?: string }): string {
-  const hash = opts.sessionId ? `${token}/${opts.sessionId}` : token!;
+function buildWebUrl(opts: {
+  token: string;
+  sessionId?: string;
+  tunnelUrl?: string;
+  lanHost?: string;
+}): string {
+  const hash = opts.sessionId ? `${opts.token}/${opts.sessionId}` : opts.token;
   if (opts.tunnelUrl) {
     return `${opts.tunnelUrl}/#${hash}`;
   }
-  return `http://${opts.lanHost}:${port}/#${hash}`;
+  return `${tlsEnabled ? "https" : "http"}://${opts.lanHost}:${port}/#${hash}`;
 }
 
-function printQr(url: string, exitAfter: boolean): void {
+function printQr(url: string, exitAfter: boolean, fingerprint?: string): void {
   process.stderr.write(`${url}\n`);
+  if (fingerprint) {
+    // Devices that do not trust the local CA show this when they warn
+    process.stderr.write(`Certificate SHA-256: ${fingerprint}\n`);
+  }
   qrcode.generate(url, { small: true }, (code: string) => {
     process.stderr.write(code + "\n");
     if (exitAfter) process.exit(0);
@@ -391,6 +625,7 @@ function checkSessions(): Promise<number> {
     if (!token) { resolve(0); return; }
     const ws = new WebSocket(wsUrl(), {
       headers: { Authorization: `Bearer ${token}` },
+      ca: serverCa(),
     });
     const timeout = setTimeout(() => { ws.close(); resolve(0); }, 3000);
     ws.on("open", () => {
@@ -408,7 +643,34 @@ function checkSessions(): Promise<number> {
   });
 }
 
-async function cmdConnect(): Promise<void> {
+const SHARE_LINK_TTL = "24h";
+
+/**
+ * Mint a registry token that only unlocks the given session, so a QR code
+ * for one shared terminal never exposes the others or the master token.
+ */
+function mintSessionToken(sessionId: string, viewOnly: boolean, ttl: string): string {
+  const ms = parseDuration(ttl);
+  if (ms === null) die("--expires must look like 30m, 12h or 7d");
+  const registry = new TokenRegistry(process.env.TERMINALSYNC_TOKENS_FILE || undefined);
+  const { token: secret } = registry.create({
+    label: `share-link ${sessionId.slice(0, 8)}`,
+    scope: viewOnly ? "view" : "full",
+    expiresAt: new Date(Date.now() + ms),
+    sessionId,
+  });
+  return secret;
+}
+
+async function cmdConnect(argv: string[]): Promise<void> {
+  const viewOnly = argv.includes("--view-only");
+  const sessionId = process.env.TERMINALSYNC_SESSION;
+  if (viewOnly && !sessionId && !viewToken) {
+    die(
+      "No view-only token configured. Add TERMINALSYNC_VIEW_TOKEN to ~/.terminalsync/config\n" +
+      "and restart the server with 'terminalsync kill'.",
+    );
+  }
   await checkForUpdate();
   if (!(await ensureServer())) die("Cannot reach server");
 
@@ -417,21 +679,84 @@ async function cmdConnect(): Promise<void> {
     die("No shared sessions. Run 'terminalsync share' in a terminal first.");
   }
 
-  const sessionId = process.env.TERMINALSYNC_SESSION;
+  const linkToken = sessionId
+    ? mintSessionToken(sessionId, viewOnly, flagValue(argv, "--expires") ?? SHARE_LINK_TTL)
+    : viewOnly ? viewToken! : token!;
   const health = await fetchHealth();
 
   if (health?.tunnelUrl) {
-    const url = buildWebUrl({ sessionId, tunnelUrl: health.tunnelUrl });
+    const url = buildWebUrl({ token: linkToken, sessionId, tunnelUrl: health.tunnelUrl });
     printQr(url, true);
   } else {
-    const url = buildWebUrl({ sessionId, lanHost: getLanIp() });
-    printQr(url, true);
+    const url = buildWebUrl({ token: linkToken, sessionId, lanHost: getLanIp() });
+    printQr(url, true, tlsEnabled ? readCertificates(tlsDir)?.fingerprint : undefined);
   }
 }
 
+// --- Session management ---
+
+/**
+ * Resolve a session id (or unique prefix, as shown by `list`) and send one
+ * request for it, resolving once the server broadcasts `doneType` for it.
+ */
+async function sessionRequest(
+  targetId: string,
+  request: (id: string) => Record<string, unknown>,
+  doneType: string,
+): Promise<string> {
+  if (!(await checkHealth())) die("Server is not running");
+  const ws = openWs(wsUrl(), token, serverCa());
+  let resolvedId: string | null = null;
+
+  return new Promise((resolve) => {
+    ws.on("open", () => {
+      send(ws, { type: "list_sessions", payload: {} });
+    });
+
+    ws.on("message", (raw) => {
+      const msg = JSON.parse(raw.toString());
+      if (msg.type === "session_list" && resolvedId === null) {
+        const sessions = msg.payload.sessions as Array<{ id: string }>;
+        const exact = sessions.find((s) => s.id === targetId);
+        const matches = exact ? [exact] : sessions.filter((s) => s.id.startsWith(targetId));
+        if (matches.length === 0) die(`No session matching: ${targetId}`);
+        if (matches.length > 1) die(`Ambiguous session id: ${targetId}`);
+        resolvedId = matches[0].id;
+        send(ws, request(resolvedId));
+      } else if (msg.type === doneType && msg.payload.id === resolvedId) {
+        ws.close();
+        resolve(msg.payload.id as string);
+      } else if (msg.type === "error") {
+        die(`Error: ${msg.payload.message}`);
+      }
+    });
+
+    ws.on("error", (err) => die(`WebSocket error: ${err.message}`));
+  });
+}
+
+async function cmdRename(targetId: string, name: string): Promise<void> {
+  const id = await sessionRequest(
+    targetId,
+    (target) => ({ type: "rename_session", payload: { target, name } }),
+    "session_renamed",
+  );
+  console.log(`Renamed ${id} to "${name.trim()}"`);
+}
+
 // --- Kill command ---
 
-async function cmdKill(): Promise<void> {
+async function cmdKill(targetId?: string): Promise<void> {
+  if (targetId) {
+    const id = await sessionRequest(
+      targetId,
+      (target) => ({ type: "kill_session", payload: { target } }),
+      "session_removed",
+    );
+    console.log(`Killed session ${id}`);
+    return;
+  }
+
   const { execSync } = await import("child_process");
   const myPid = process.pid;
   let killed = 0;
@@ -484,6 +809,115 @@ async function cmdKill(): Promise<void> {
   }
 }
 
+// --- Token command ---
+
+function flagValue(argv: string[], name: string): string | undefined {
+  const idx = argv.indexOf(name);
+  return idx !== -1 ? argv[idx + 1] : undefined;
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^(\d+)([mhd])$/);
+  if (!match) return null;
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as "m" | "h" | "d"];
+  return parseInt(match[1], 10) * unit;
+}
+
+function cmdToken(argv: string[]): void {
+  const registry = new TokenRegistry(process.env.TERMINALSYNC_TOKENS_FILE || undefined);
+  const sub = argv[0];
+
+  if (sub === "create") {
+    const label = flagValue(argv, "--label") ?? `token-${new Date().toISOString().slice(0, 10)}`;
+    const scope = flagValue(argv, "--scope") ?? "full";
+    if (scope !== "full" && scope !== "view") die("--scope must be 'full' or 'view'");
+    const expiresFlag = flagValue(argv, "--expires");
+    let expiresAt: Date | null = null;
+    if (expiresFlag) {
+      const ms = parseDuration(expiresFlag);
+      if (ms === null) die("--expires must look like 30m, 12h or 7d");
+      expiresAt = new Date(Date.now() + ms);
+    }
+
+    const { token: secret, entry } = registry.create({ label, scope, expiresAt });
+    console.log(`Created token ${entry.id} (${entry.label}, ${entry.scope})`);
+    if (entry.expiresAt) console.log(`Expires: ${entry.expiresAt}`);
+    console.log(`\n  ${secret}\n`);
+    console.log("Store it now — it will not be shown again.");
+    return;
+  }
+
+  if (sub === "list") {
+    const tokens = registry.list();
+    if (tokens.length === 0) {
+      console.log("No tokens.");
+      return;
+    }
+    for (const t of tokens) {
+      const expiry = t.expiresAt
+        ? (isExpired(t) ? "expired" : `expires ${t.expiresAt}`)
+        : "no expiry";
+      console.log(`${t.id}  ${t.label}  ${t.scope}  created ${t.createdAt}  ${expiry}`);
+    }
+    return;
+  }
+
+  if (sub === "revoke") {
+    const id = argv[1];
+    if (!id) die("Usage: terminalsync token revoke <id>");
+    const entry = registry.revoke(id);
+    if (!entry) die(`No token with id: ${id}`);
+    console.log(`Revoked token ${entry.id} (${entry.label})`);
+    return;
+  }
+
+  die("Usage: terminalsync token <create|list|revoke>");
+}
+
+// --- Audit command ---
+
+/** A point in time from `--since`/`--until`: a duration ago (30m, 12h, 7d) or a date. */
+function parseTime(value: string, flag: string): number {
+  const ago = parseDuration(value);
+  if (ago !== null) return Date.now() - ago;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) die(`${flag} must be a duration like 12h or a date like 2025-01-31T09:00`);
+  return time;
+}
+
+function formatAuditRecord(r: AuditRecord): string {
+  const who = `${r.label}@${r.address}`;
+  let detail = "";
+  if (r.event === "input") {
+    detail = r.data !== undefined ? JSON.stringify(r.data) : `(${r.bytes} bytes)`;
+  } else if (r.command) {
+    detail = r.command;
+  }
+  return `${r.time}  ${r.event.padEnd(6)}  ${r.sessionId}  ${who}  ${detail}`.trimEnd();
+}
+
+function cmdAudit(argv: string[]): void {
+  const file =
+    process.env.TERMINALSYNC_AUDIT_FILE ?? fileConfig.TERMINALSYNC_AUDIT_FILE ?? defaultAuditPath();
+  const since = flagValue(argv, "--since");
+  const until = flagValue(argv, "--until");
+  const records = readAuditLog(file, {
+    sessionId: flagValue(argv, "--session"),
+    since: since ? parseTime(since, "--since") : undefined,
+    until: until ? parseTime(until, "--until") : undefined,
+  });
+
+  if (argv.includes("--json")) {
+    for (const r of records) console.log(JSON.stringify(r));
+    return;
+  }
+  if (records.length === 0) {
+    console.log(existsSync(file) ? "No matching audit records." : `No audit log at ${file}`);
+    return;
+  }
+  for (const r of records) console.log(formatAuditRecord(r));
+}
+
 // --- Uninstall command ---
 
 async function cmdUninstall(): Promise<void> {
@@ -609,11 +1043,31 @@ Usage: terminalsync <command>
 
 Commands:
   share            Share current terminal on a secure tunnel URL
+    --record       Record the session to ~/.terminalsync/recordings
+    --resize <p>   Who sets the terminal size: host (default), smallest,
+                   largest or last-writer
+    --single-writer
+                   Only one device types at a time; you start with control
   connect          Show QR code to connect from any device
+    --view-only    Share a link that can watch but not type
+    --expires <t>  Lifetime of a shared session's link (default 24h)
+  run -- <cmd>     Share a session that runs one command, then exits
+    --record       Record the session to ~/.terminalsync/recordings
+    --resize <p>   Who sets the terminal size, as for share
   config           Configure tunnel and port
   list             List active sessions
   attach <id>      Attach to an existing session
-  kill             Kill all shared terminals and stop the server
+  rename <id> <name>
+                   Rename a session
+  token create     Create a named access token
+    --label <name> --scope <full|view> --expires <30m|12h|7d>
+  token list       List access tokens
+  token revoke <id>
+                   Revoke a token and disconnect its clients
+  audit            Show who typed what, from the audit log
+    --session <id> --since <12h|date> --until <12h|date> --json
+  kill [id]        Kill one session, or with no id all shared
+                   terminals and the server
   update           Update to the latest version
   uninstall        Remove TerminalSync from this machine
   help             Show this help message
@@ -637,16 +1091,29 @@ switch (cmd) {
     cmdAttach(args[1]);
     break;
   case "connect":
-    cmdConnect();
+    cmdConnect(args.slice(1));
     break;
   case "config":
     cmdConfig();
     break;
   case "share":
-    cmdShare();
+    cmdShare(args.slice(1));
+    break;
+  case "run":
+    cmdRun(args.slice(1));
+    break;
+  case "token":
+    cmdToken(args.slice(1));
+    break;
+  case "audit":
+    cmdAudit(args.slice(1));
+    break;
+  case "rename":
+    if (!args[1] || !args[2]) die("Usage: terminalsync rename <session-id> <name>");
+    cmdRename(args[1], args.slice(2).join(" "));
     break;
   case "kill":
-    cmdKill();
+    cmdKill(args[1]);
     break;
   case "update":
     cmdUpdate();
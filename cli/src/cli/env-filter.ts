@@ -0,0 +1,57 @@
+import { isSettableEnvName } from "../session/spawn-policy.js";
+
+/**
+ * Name patterns for variables that look like secrets. `*` matches any run
+ * of characters; matching ignores case. Override with a comma-separated
+ * TERMINALSYNC_ENV_DENYLIST.
+ */
+export const DEFAULT_ENV_DENYLIST = [
+  "*TOKEN*",
+  "*SECRET*",
+  "*PASSWORD*",
+  "*PASSWD*",
+  "*PASSPHRASE*",
+  "*API_KEY*",
+  "*APIKEY*",
+  "*PRIVATE_KEY*",
+  "*CREDENTIAL*",
+  "*ACCESS_KEY*",
+  "*DATABASE_URL*",
+];
+
+export function parseDenylist(value: string | undefined): string[] {
+  if (value === undefined) return DEFAULT_ENV_DENYLIST;
+  return value
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Split an environment into what a shared session may inherit and the names
+ * that were withheld: secret-looking variables, plus names the server never
+ * accepts from clients.
+ */
+export function filterEnv(
+  env: NodeJS.ProcessEnv,
+  denylist: string[],
+): { env: Record<string, string>; redacted: string[] } {
+  const patterns = denylist.map(patternToRegExp);
+  const kept: Record<string, string> = {};
+  const redacted: string[] = [];
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined || !isSettableEnvName(name)) continue;
+    if (patterns.some((re) => re.test(name))) {
+      redacted.push(name);
+    } else {
+      kept[name] = value;
+    }
+  }
+  return { env: kept, redacted: redacted.sort() };
+}
@@ -11,10 +11,12 @@ export function die(msg: string): never {
   process.exit(1);
 }
 
-export function openWs(url: string, token: string | undefined): WebSocket {
+/** Connect with the token; `ca` verifies a server using the local TLS CA. */
+export function openWs(url: string, token: string | undefined, ca?: Buffer): WebSocket {
   if (!token) die("TERMINALSYNC_TOKEN is required");
   const ws = new WebSocket(url, {
     headers: { Authorization: `Bearer ${token}` },
+    ca,
   });
   return ws;
 }
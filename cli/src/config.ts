@@ -1,11 +1,121 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { PerMessageDeflateOptions } from "ws";
+import type { RecordingOptions } from "./session/session-recorder.js";
+import type { AuthLimiterOptions } from "./server/rate-limit.js";
+import {
+  AUDIT_REDACTIONS,
+  defaultAuditPath,
+  type AuditOptions,
+  type AuditRedaction,
+} from "./session/audit-log.js";
+
 export interface Config {
   port: number;
   host: string;
   authToken: string;
+  viewToken?: string;
   maxClients: number;
   defaultScrollbackLines: number;
   defaultShell: string;
   tunnel: boolean;
+  /** Serve HTTPS/WSS with a certificate from the local CA in `tlsDir`. */
+  tls: boolean;
+  /** Local CA and server certificate location; defaults to ~/.terminalsync/tls. */
+  tlsDir?: string;
+  /** Token registry location; defaults to ~/.terminalsync/tokens.json. */
+  tokensFile?: string;
+  /** Record every managed session, not just those created with `record`. */
+  recordSessions: boolean;
+  recordingsDir: string;
+  recordingsMaxBytes: number;
+  recordingsMaxAgeDays: number;
+  /** Log what every client types, and when it creates, attaches to, leaves or kills sessions. */
+  audit: boolean;
+  /** Audit log location; defaults to ~/.terminalsync/audit.jsonl. */
+  auditFile?: string;
+  /** How much of the typed input the audit log keeps. */
+  auditRedact: AuditRedaction;
+  /** Shells a client may ask for in create_session. */
+  allowedShells: string[];
+  /** Programs a client may run instead of a shell; "*" allows any. */
+  allowedCommands: string[];
+  /** Directories, with their subdirectories, sessions may start in; "*" allows any. */
+  allowedCwds: string[];
+  /** Environment variable names a client may set; "*" allows any. */
+  allowedEnv: string[];
+  /** Coalesce terminal output for up to this long per client; 0 sends each chunk at once. */
+  outputBatchMs: number;
+  /** Send a client's coalesced output early once this many bytes are waiting. */
+  outputBatchBytes: number;
+  /** Offer permessage-deflate to clients that support it. */
+  compression: boolean;
+  /** Hold back a client's output once this much is queued on its socket, then resync it. */
+  maxBufferedBytes: number;
+  /** How long the web UI's session cookie lasts after exchanging a link token. */
+  sessionHours: number;
+  /** Failed logins from one address before it is locked out. */
+  authMaxFailures: number;
+  /** First lockout length; repeat offenders get double each time, up to an hour. */
+  authLockoutSeconds: number;
+  /** `input` messages a client may send per second; 0 disables the limit. */
+  inputRateMessages: number;
+  /** Input bytes a client may send per second; 0 disables the limit. */
+  inputRateBytes: number;
+}
+
+export function recordingOptions(config: Config): RecordingOptions {
+  return {
+    dir: config.recordingsDir,
+    maxBytes: config.recordingsMaxBytes,
+    maxAgeMs: config.recordingsMaxAgeDays * 24 * 60 * 60 * 1000,
+  };
+}
+
+export function auditOptions(config: Config): AuditOptions {
+  return {
+    file: config.auditFile ?? defaultAuditPath(),
+    redact: config.auditRedact,
+  };
+}
+
+export function authLimiterOptions(config: Config): AuthLimiterOptions {
+  return {
+    maxFailures: config.authMaxFailures,
+    lockoutMs: config.authLockoutSeconds * 1000,
+    maxLockoutMs: 60 * 60 * 1000,
+  };
+}
+
+/** WebSocketServer `perMessageDeflate` setting for this config. */
+export function perMessageDeflate(config: Config): PerMessageDeflateOptions | false {
+  if (!config.compression) return false;
+  return {
+    // Keystroke echoes are too small to gain anything from compression
+    threshold: 256,
+    zlibDeflateOptions: { level: 6 },
+  };
+}
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** The system's login shells, as listed in /etc/shells. */
+function systemShells(): string[] {
+  try {
+    return readFileSync("/etc/shells", "utf-8")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith("/"));
+  } catch {
+    return [];
+  }
 }
 
 export function loadConfig(): Config {
@@ -15,18 +125,72 @@ export function loadConfig(): Config {
     process.exit(1);
   }
 
+  const auditRedact = process.env.TERMINALSYNC_AUDIT_REDACT ?? "none";
+  if (!AUDIT_REDACTIONS.includes(auditRedact as AuditRedaction)) {
+    console.error(
+      `TERMINALSYNC_AUDIT_REDACT must be one of: ${AUDIT_REDACTIONS.join(", ")}`,
+    );
+    process.exit(1);
+  }
+
+  const defaultShell =
+    process.env.TERMINALSYNC_SHELL ?? process.env.SHELL ?? "/bin/sh";
+
   return {
     port: parseInt(process.env.TERMINALSYNC_PORT ?? "8089", 10),
     host: process.env.TERMINALSYNC_HOST ?? "0.0.0.0",
     authToken,
+    viewToken: process.env.TERMINALSYNC_VIEW_TOKEN || undefined,
     maxClients: parseInt(process.env.TERMINALSYNC_MAX_CLIENTS ?? "10", 10),
     defaultScrollbackLines: parseInt(
       process.env.TERMINALSYNC_SCROLLBACK ?? "1000",
       10,
     ),
-    defaultShell:
-      process.env.TERMINALSYNC_SHELL ?? process.env.SHELL ?? "/bin/sh",
+    defaultShell,
     tunnel:
       (process.env.TERMINALSYNC_TUNNEL ?? "false") === "true",
+    tls: (process.env.TERMINALSYNC_TLS ?? "false") === "true",
+    tlsDir: process.env.TERMINALSYNC_TLS_DIR || undefined,
+    tokensFile: process.env.TERMINALSYNC_TOKENS_FILE || undefined,
+    recordSessions: (process.env.TERMINALSYNC_RECORD ?? "false") === "true",
+    recordingsDir:
+      process.env.TERMINALSYNC_RECORDINGS_DIR ??
+      join(homedir(), ".terminalsync", "recordings"),
+    recordingsMaxBytes:
+      parseInt(process.env.TERMINALSYNC_RECORDINGS_MAX_MB ?? "500", 10) * 1024 * 1024,
+    recordingsMaxAgeDays: parseInt(
+      process.env.TERMINALSYNC_RECORDINGS_MAX_AGE_DAYS ?? "30",
+      10,
+    ),
+    audit: (process.env.TERMINALSYNC_AUDIT ?? "false") === "true",
+    auditFile: process.env.TERMINALSYNC_AUDIT_FILE || undefined,
+    auditRedact: auditRedact as AuditRedaction,
+    allowedShells: parseList(process.env.TERMINALSYNC_ALLOWED_SHELLS, [
+      ...new Set([defaultShell, ...systemShells()]),
+    ]),
+    allowedCommands: parseList(process.env.TERMINALSYNC_ALLOWED_COMMANDS, ["*"]),
+    allowedCwds: parseList(process.env.TERMINALSYNC_ALLOWED_CWDS, ["*"]),
+    allowedEnv: parseList(process.env.TERMINALSYNC_ALLOWED_ENV, ["*"]),
+    outputBatchMs: parseInt(process.env.TERMINALSYNC_OUTPUT_BATCH_MS ?? "8", 10),
+    outputBatchBytes: parseInt(
+      process.env.TERMINALSYNC_OUTPUT_BATCH_BYTES ?? String(64 * 1024),
+      10,
+    ),
+    compression: (process.env.TERMINALSYNC_COMPRESSION ?? "true") === "true",
+    maxBufferedBytes: parseInt(
+      process.env.TERMINALSYNC_MAX_BUFFERED_BYTES ?? String(1024 * 1024),
+      10,
+    ),
+    sessionHours: parseInt(process.env.TERMINALSYNC_SESSION_HOURS ?? "24", 10),
+    authMaxFailures: parseInt(process.env.TERMINALSYNC_AUTH_MAX_FAILURES ?? "5", 10),
+    authLockoutSeconds: parseInt(
+      process.env.TERMINALSYNC_AUTH_LOCKOUT_SECONDS ?? "30",
+      10,
+    ),
+    inputRateMessages: parseInt(process.env.TERMINALSYNC_INPUT_RATE_MESSAGES ?? "200", 10),
+    inputRateBytes: parseInt(
+      process.env.TERMINALSYNC_INPUT_RATE_BYTES ?? String(1024 * 1024),
+      10,
+    ),
   };
 }
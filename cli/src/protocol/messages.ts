@@ -1,21 +1,116 @@
 // --- Shared types ---
 
+/**
+ * Who decides a managed session's PTY size: the client that created it,
+ * the smallest or largest attached client, or whoever typed last.
+ */
+export type ResizePolicy = "host" | "smallest" | "largest" | "last-writer";
+
+export const RESIZE_POLICIES: readonly ResizePolicy[] = [
+  "host",
+  "smallest",
+  "largest",
+  "last-writer",
+];
+
+export type ClientDevice = "cli" | "web" | "mobile" | "unknown";
+
+export const CLIENT_DEVICES: readonly ClientDevice[] = ["cli", "web", "mobile", "unknown"];
+
+/** How a connection introduced itself with `identify`. */
+export interface ClientIdentity {
+  name: string;
+  device: ClientDevice;
+}
+
+/** One client attached to a session. */
+export interface PresenceClient extends ClientIdentity {
+  clientId: string;
+  readOnly: boolean;
+}
+
 export interface SessionInfo {
   id: string;
   name: string;
   status: "running" | "exited";
   attachedClients: number;
   source: "managed" | "tmux";
+  /** Managed sessions only. */
+  resizePolicy?: ResizePolicy;
+  /** Who is attached; managed sessions only, as tmux does not say. */
+  clients?: PresenceClient[];
+  /** Working directory of the shell (tmux: the active pane), when known. */
+  cwd?: string;
+  /** Program in the foreground, e.g. "bash" at a prompt or "npm" while it runs. */
+  command?: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  /**
+   * Epoch milliseconds of the last input or output. Lists carry it, but it
+   * changing alone does not trigger session_updated.
+   */
+  lastActivityAt: number;
+}
+
+/**
+ * A program asking for attention: a bell, or a desktop notification sent
+ * with OSC 9 (`\x1b]9;text\x07`) or OSC 777 (`\x1b]777;notify;title;text\x07`).
+ */
+export interface TerminalNotification {
+  kind: "bell" | "notify";
+  /** OSC 777 only. */
+  title?: string;
+  /** Empty for a bell. */
+  text: string;
+}
+
+/** One command from a shell that marks its prompts with OSC 133. */
+export interface CommandInfo {
+  /** Counts up from 1 within the session. */
+  id: number;
+  /** The command line as it appeared on screen; empty when it could not be read. */
+  command: string;
+  /** The session's working directory when the command started. */
+  cwd?: string;
+  /** Epoch milliseconds. */
+  startedAt: number;
+  /** Epoch milliseconds; absent while the command is running. */
+  finishedAt?: number;
+  /** Absent while running, or when the shell did not report it. */
+  exitCode?: number;
+  /** Stream offset where the command's output begins. */
+  outputStart: number;
+  /** Stream offset just past its output; absent while running. */
+  outputEnd?: number;
+  /**
+   * Lines between the command's prompt and the cursor when the list was
+   * sent, for scrolling to it. Absent once it has left the scrollback.
+   */
+  linesBack?: number;
 }
 
 // --- Client → Server ---
 
+/** Name this connection for presence; may be sent again to change it. */
+export interface IdentifyMessage {
+  type: "identify";
+  seq: number;
+  payload: ClientIdentity;
+}
+
 export interface ListSessionsMessage {
   type: "list_sessions";
   seq: number;
   payload: Record<string, never>;
 }
 
+/** Get the session list now, then session_added/updated/removed as it changes. */
+export interface SubscribeSessionsMessage {
+  type: "subscribe_sessions";
+  seq: number;
+  payload: Record<string, never>;
+}
+
 export interface CreateSessionMessage {
   type: "create_session";
   seq: number;
@@ -23,6 +118,24 @@ export interface CreateSessionMessage {
     name: string;
     cols: number;
     rows: number;
+    /** Record this session to an asciicast file (also on when enabled globally). */
+    record?: boolean;
+    /** Run this argv instead of a shell; the session ends when it exits. */
+    command?: string[];
+    /** Absolute working directory for the session. */
+    cwd?: string;
+    /** Extra environment variables for the session. */
+    env?: Record<string, string>;
+    /** When false, `env` replaces the server's environment instead of extending it. */
+    inheritEnv?: boolean;
+    /** A shell other than the server's default. */
+    shell?: string;
+    /** Attach the creator at once, so a short command's output is not missed. */
+    attach?: boolean;
+    /** Defaults to "host": only the creating client's size applies. */
+    resizePolicy?: ResizePolicy;
+    /** Start in single-writer mode, with the creator holding control. */
+    singleWriter?: boolean;
   };
 }
 
@@ -33,6 +146,8 @@ export interface AttachMessage {
     target: string;
     cols: number;
     rows: number;
+    /** Stream offset the client has already rendered; only missed output is replayed. */
+    resumeFrom?: number;
   };
 }
 
@@ -59,13 +174,92 @@ export interface DetachMessage {
   payload: Record<string, never>;
 }
 
+export interface KillSessionMessage {
+  type: "kill_session";
+  seq: number;
+  payload: {
+    target: string;
+  };
+}
+
+export interface RenameSessionMessage {
+  type: "rename_session";
+  seq: number;
+  payload: {
+    target: string;
+    name: string;
+  };
+}
+
+export interface SetResizePolicyMessage {
+  type: "set_resize_policy";
+  seq: number;
+  payload: {
+    target: string;
+    policy: ResizePolicy;
+  };
+}
+
+/** Ask the holder of the attached session's keyboard to hand it over. */
+export interface RequestControlMessage {
+  type: "request_control";
+  seq: number;
+  payload: Record<string, never>;
+}
+
+/** Holder or host only: give control to another attached client. */
+export interface GrantControlMessage {
+  type: "grant_control";
+  seq: number;
+  payload: {
+    clientId: string;
+  };
+}
+
+/** Holder or host only: turn down a pending request. */
+export interface DenyControlMessage {
+  type: "deny_control";
+  seq: number;
+  payload: {
+    clientId: string;
+  };
+}
+
+/** Turn single-writer mode on (taking control) or off for the attached session. */
+export interface SetSingleWriterMessage {
+  type: "set_single_writer";
+  seq: number;
+  payload: {
+    enabled: boolean;
+  };
+}
+
+/** Commands the target session has run, oldest first. */
+export interface GetCommandsMessage {
+  type: "get_commands";
+  seq: number;
+  payload: {
+    target: string;
+  };
+}
+
 export type ClientMessage =
+  | IdentifyMessage
   | ListSessionsMessage
+  | SubscribeSessionsMessage
   | CreateSessionMessage
   | AttachMessage
   | InputMessage
   | ResizeMessage
-  | DetachMessage;
+  | DetachMessage
+  | KillSessionMessage
+  | RenameSessionMessage
+  | SetResizePolicyMessage
+  | RequestControlMessage
+  | GrantControlMessage
+  | DenyControlMessage
+  | SetSingleWriterMessage
+  | GetCommandsMessage;
 
 // --- Server → Client ---
 
@@ -77,6 +271,24 @@ export interface SessionListResponse {
   };
 }
 
+/** Pushed to subscribers when a session appears. */
+export interface SessionAddedResponse {
+  type: "session_added";
+  seq: number;
+  payload: {
+    session: SessionInfo;
+  };
+}
+
+/** Pushed to subscribers when a session's name, status or clients change. */
+export interface SessionUpdatedResponse {
+  type: "session_updated";
+  seq: number;
+  payload: {
+    session: SessionInfo;
+  };
+}
+
 export interface SessionCreatedResponse {
   type: "session_created";
   seq: number;
@@ -94,6 +306,26 @@ export interface SessionRemovedResponse {
   };
 }
 
+export interface SessionRenamedResponse {
+  type: "session_renamed";
+  seq: number;
+  payload: {
+    id: string;
+    /** Renaming a tmux session changes its id; equal to `id` for managed sessions. */
+    newId: string;
+    name: string;
+  };
+}
+
+export interface ResizePolicyChangedResponse {
+  type: "resize_policy_changed";
+  seq: number;
+  payload: {
+    id: string;
+    policy: ResizePolicy;
+  };
+}
+
 export interface AttachedResponse {
   type: "attached";
   seq: number;
@@ -101,6 +333,17 @@ export interface AttachedResponse {
     target: string;
     cols: number;
     rows: number;
+    /** True when the client connected with a view-only token. */
+    readOnly: boolean;
+    /** Stream offset of the first replayed byte that follows this message. */
+    offset: number;
+    /** The requested resume point was unavailable; reset before writing the replay. */
+    gap: boolean;
+    /** This connection's id, as used for `controller` and control requests. */
+    clientId: string;
+    /** Only `controller` may send input while set. */
+    singleWriter: boolean;
+    controller: string | null;
   };
 }
 
@@ -108,8 +351,22 @@ export interface DetachedResponse {
   type: "detached";
   seq: number;
   payload: {
-    reason: "client_request" | "session_exit" | "error";
+    reason: "client_request" | "session_exit" | "session_killed" | "error";
     message?: string;
+    /** Exit status of the session's process, for "session_exit". */
+    exitCode?: number;
+  };
+}
+
+/**
+ * Sent to a client that fell too far behind: drop the terminal's contents,
+ * a screen snapshot follows and the stream continues from `offset`.
+ */
+export interface ResyncResponse {
+  type: "resync";
+  seq: number;
+  payload: {
+    offset: number;
   };
 }
 
@@ -122,6 +379,63 @@ export interface ResizedResponse {
   };
 }
 
+/** Broadcast when a client attaches to, detaches from, or renames itself in a session. */
+export interface PresenceResponse {
+  type: "presence";
+  seq: number;
+  payload: {
+    id: string;
+    clients: PresenceClient[];
+    joined?: PresenceClient;
+    left?: PresenceClient;
+  };
+}
+
+/** Sent to attached clients when single-writer mode or its holder changes. */
+export interface ControlChangedResponse {
+  type: "control_changed";
+  seq: number;
+  payload: {
+    singleWriter: boolean;
+    controller: string | null;
+  };
+}
+
+/** Sent to the holder and the host when another client asks for control. */
+export interface ControlRequestedResponse {
+  type: "control_requested";
+  seq: number;
+  payload: {
+    clientId: string;
+  };
+}
+
+/** Sent to a requester whose request was turned down. */
+export interface ControlDeniedResponse {
+  type: "control_denied";
+  seq: number;
+  payload: Record<string, never>;
+}
+
+export interface CommandsResponse {
+  type: "commands";
+  seq: number;
+  payload: {
+    id: string;
+    commands: CommandInfo[];
+  };
+}
+
+/** Sent to every client that can see the session, attached or not. */
+export interface NotificationResponse {
+  type: "notification";
+  seq: number;
+  payload: TerminalNotification & {
+    sessionId: string;
+    sessionName: string;
+  };
+}
+
 export interface ErrorResponse {
   type: "error";
   seq: number;
@@ -133,11 +447,22 @@ export interface ErrorResponse {
 
 export type ServerMessage =
   | SessionListResponse
+  | SessionAddedResponse
+  | SessionUpdatedResponse
   | SessionCreatedResponse
   | SessionRemovedResponse
+  | SessionRenamedResponse
+  | ResizePolicyChangedResponse
   | AttachedResponse
   | ResizedResponse
+  | PresenceResponse
+  | ControlChangedResponse
+  | ControlRequestedResponse
+  | ControlDeniedResponse
   | DetachedResponse
+  | ResyncResponse
+  | NotificationResponse
+  | CommandsResponse
   | ErrorResponse;
 
 export function parseClientMessage(data: string): ClientMessage {
@@ -148,12 +473,22 @@ export function parseClientMessage(data: string): ClientMessage {
   }
 
   switch (msg.type) {
+    case "identify":
     case "list_sessions":
+    case "subscribe_sessions":
     case "create_session":
     case "attach":
     case "input":
     case "resize":
     case "detach":
+    case "kill_session":
+    case "rename_session":
+    case "set_resize_policy":
+    case "request_control":
+    case "grant_control":
+    case "deny_control":
+    case "set_single_writer":
+    case "get_commands":
       return msg as ClientMessage;
     default:
       throw new Error(`Unknown message type: ${msg.type}`);
@@ -0,0 +1,141 @@
+import type { IncomingMessage } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import type { Config } from "../config.js";
+import type { TokenRegistry } from "./token-registry.js";
+import type { AuthLimiter } from "./rate-limit.js";
+import { readSessionCookie, verifySessionCookie } from "./session-cookie.js";
+
+export type TokenScope = "full" | "view";
+
+export interface ClientGrant {
+  scope: TokenScope;
+  label: string;
+  /** Registry id when the token came from the token registry. */
+  tokenId?: string;
+  /** Restricts the client to a single managed session. */
+  sessionId?: string;
+}
+
+export function constantTimeCompare(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) {
+    // Still do a compare to avoid timing leak on length
+    timingSafeEqual(bufA, bufA);
+    return false;
+  }
+  return timingSafeEqual(bufA, bufB);
+}
+
+export function extractToken(req: IncomingMessage): string | null {
+  // Check query param
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  const queryToken = url.searchParams.get("token");
+  if (queryToken) return queryToken;
+
+  // Check Authorization header
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice(7);
+  }
+
+  // Browsers that traded their link token for a session cookie
+  return readSessionCookie(req);
+}
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+/**
+ * The address a request really came from. With the tunnel on, cloudflared
+ * connects over loopback and names the client in CF-Connecting-IP (or
+ * X-Forwarded-For); those headers are ignored otherwise, since anyone
+ * connecting directly could set them.
+ */
+export function clientAddress(req: IncomingMessage, config: Config): string {
+  const remote = req.socket.remoteAddress ?? "unknown";
+  if (!config.tunnel || !LOOPBACK.has(remote)) return remote;
+
+  const cfIp = req.headers["cf-connecting-ip"];
+  if (typeof cfIp === "string" && cfIp.trim()) return cfIp.trim();
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return first || remote;
+}
+
+/**
+ * Whether a WebSocket upgrade comes from a page this server served. Browsers
+ * always send Origin, so another site cannot open a socket riding on our
+ * cookie; the CLI and the app send none and authenticate by token instead.
+ */
+export function originAllowed(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/** Resolve a presented token to the access it grants, or null if invalid. */
+export function authenticate(
+  token: string | null,
+  config: Config,
+  registry?: TokenRegistry,
+): ClientGrant | null {
+  if (!token) return null;
+  if (constantTimeCompare(token, config.authToken)) {
+    return { scope: "full", label: "master" };
+  }
+  if (config.viewToken && constantTimeCompare(token, config.viewToken)) {
+    return { scope: "view", label: "view" };
+  }
+  const entry = registry?.verify(token);
+  if (entry) {
+    return {
+      scope: entry.scope,
+      label: entry.label,
+      tokenId: entry.id,
+      sessionId: entry.sessionId,
+    };
+  }
+  const session = verifySessionCookie(token, config.authToken);
+  // A cookie dies with the registry token it was exchanged for
+  if (session && (!session.grant.tokenId || registry?.isActive(session.grant.tokenId))) {
+    return session.grant;
+  }
+  return null;
+}
+
+/** A grant, or the HTTP status to refuse the request with. */
+export type AuthCheck = { grant: ClientGrant } | { status: 401 | 429; retryAfter?: number };
+
+/**
+ * Authenticate a request, counting failures against its address. Returns
+ * the grant, or the HTTP status to refuse with: 429 while the address is
+ * locked out (with seconds to wait), 401 for a bad token.
+ */
+export function checkAuth(
+  req: IncomingMessage,
+  config: Config,
+  limiter: AuthLimiter,
+  registry?: TokenRegistry,
+): AuthCheck {
+  const address = clientAddress(req, config);
+  const wait = limiter.retryAfter(address);
+  if (wait > 0) return { status: 429, retryAfter: Math.ceil(wait / 1000) };
+
+  const grant = authenticate(extractToken(req), config, registry);
+  if (grant) {
+    limiter.recordSuccess(address);
+    return { grant };
+  }
+  const lockout = limiter.recordFailure(address);
+  if (lockout) {
+    const seconds = Math.round((lockout.until - Date.now()) / 1000);
+    console.log(
+      `Locked out ${address} for ${seconds}s after repeated failed logins (strike ${lockout.strikes})`,
+    );
+  }
+  return { status: 401 };
+}
@@ -0,0 +1,170 @@
+import type { SessionManager } from "../session/session-manager.js";
+import type { ManagedSessionStore } from "../session/managed-session-store.js";
+import type { TmuxProvider } from "../tmux/tmux-provider.js";
+import type { AuthLimiter } from "./rate-limit.js";
+
+type Labels = Record<string, string>;
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: MetricSample[];
+}
+
+export interface MetricSample {
+  /** Appended to the family name, e.g. `_bucket` for histograms. */
+  suffix?: string;
+  labels?: Labels;
+  value: number;
+}
+
+/** Cumulative histogram of observed values, Prometheus-style. */
+export class Histogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  /** `buckets` are upper bounds in ascending order; +Inf is implied. */
+  constructor(readonly buckets: readonly number[]) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) this.counts[i]++;
+    }
+  }
+
+  /** One `_bucket` sample per bound and +Inf, then `_sum` and `_count`. */
+  samples(): MetricSample[] {
+    return [
+      ...this.buckets.map((le, i) => ({
+        suffix: "_bucket",
+        labels: { le: String(le) },
+        value: this.counts[i],
+      })),
+      { suffix: "_bucket", labels: { le: "+Inf" }, value: this.count },
+      { suffix: "_sum", value: this.sum },
+      { suffix: "_count", value: this.count },
+    ];
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatSample(name: string, value: number, labels?: Labels): string {
+  const pairs = Object.entries(labels ?? {}).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(",")}}` : ""} ${value}`;
+}
+
+/** Render families in the Prometheus text exposition format (version 0.0.4). */
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(formatSample(family.name + (sample.suffix ?? ""), sample.value, sample.labels));
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export interface MetricSources {
+  sessions: SessionManager;
+  store: ManagedSessionStore;
+  tmux: TmuxProvider;
+  authLimiter: AuthLimiter;
+}
+
+/** Snapshot of the server's state as Prometheus text. Lists tmux sessions, so it is async. */
+export async function collectMetrics(src: MetricSources): Promise<string> {
+  const tmuxSessions = await src.tmux.listSessions();
+  const managed = src.store.list().filter((s) => !s.hasExited());
+  const frames = src.sessions.getFramesSent();
+  const perSession = managed.map((s) => ({ id: s.id, stats: s.getStats() }));
+
+  const families: MetricFamily[] = [
+    {
+      name: "terminalsync_clients",
+      help: "Connected WebSocket clients.",
+      type: "gauge",
+      samples: [{ value: src.sessions.getClientCount() }],
+    },
+    {
+      name: "terminalsync_sessions",
+      help: "Running sessions by source.",
+      type: "gauge",
+      samples: [
+        { labels: { source: "managed" }, value: managed.length },
+        { labels: { source: "tmux" }, value: tmuxSessions.length },
+      ],
+    },
+    {
+      name: "terminalsync_session_input_bytes_total",
+      help: "Bytes typed into each managed session.",
+      type: "counter",
+      samples: perSession.map((s) => ({ labels: { session: s.id }, value: s.stats.inputBytes })),
+    },
+    {
+      name: "terminalsync_session_output_bytes_total",
+      help: "Bytes each managed session's PTY has written.",
+      type: "counter",
+      samples: perSession.map((s) => ({ labels: { session: s.id }, value: s.stats.outputBytes })),
+    },
+    {
+      name: "terminalsync_session_buffer_bytes",
+      help: "Output held in each managed session's replay ring buffer.",
+      type: "gauge",
+      samples: perSession.map((s) => ({ labels: { session: s.id }, value: s.stats.bufferedBytes })),
+    },
+    {
+      name: "terminalsync_session_buffer_capacity_bytes",
+      help: "Size of each managed session's replay ring buffer.",
+      type: "gauge",
+      samples: perSession.map((s) => ({
+        labels: { session: s.id },
+        value: s.stats.bufferCapacity,
+      })),
+    },
+    {
+      name: "terminalsync_frames_sent_total",
+      help: "WebSocket frames sent to clients: terminal output or protocol messages.",
+      type: "counter",
+      samples: [
+        { labels: { kind: "output" }, value: frames.output },
+        { labels: { kind: "message" }, value: frames.message },
+      ],
+    },
+    {
+      name: "terminalsync_auth_failures_total",
+      help: "Connections and requests refused for a missing or invalid token.",
+      type: "counter",
+      samples: [{ value: src.authLimiter.getFailureCount() }],
+    },
+    {
+      name: "terminalsync_auth_lockouts",
+      help: "Addresses currently locked out after repeated failed logins.",
+      type: "gauge",
+      samples: [{ value: src.authLimiter.getLockouts().length }],
+    },
+    {
+      name: "terminalsync_pty_spawn_failures_total",
+      help: "Managed sessions whose process failed to start.",
+      type: "counter",
+      samples: [{ value: src.store.getSpawnFailures() }],
+    },
+    {
+      name: "terminalsync_tmux_discovery_seconds",
+      help: "Time taken to list tmux sessions.",
+      type: "histogram",
+      samples: src.tmux.discoveryLatency.samples(),
+    },
+  ];
+  return formatMetrics(families);
+}
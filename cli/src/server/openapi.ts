@@ -0,0 +1,216 @@
+import { RESIZE_POLICIES } from "../protocol/messages.js";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const sessionId = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "A managed session's UUID, or `tmux:<name>` for a tmux session.",
+  schema: { type: "string" },
+};
+
+/**
+ * OpenAPI description of the sessions API in sessions-api.ts, served at
+ * `/api/openapi.json`. Keep the two in step.
+ */
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "TerminalSync sessions API",
+    version: "1",
+    description:
+      "Drive shared terminal sessions over plain HTTP. Authenticate with the same tokens " +
+      "as the WebSocket protocol: view-only tokens can read but not type, and " +
+      "session-scoped tokens only see their own session.",
+  },
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/api/sessions": {
+      get: {
+        summary: "List sessions",
+        responses: {
+          200: {
+            description: "Managed and tmux sessions this token can see",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    sessions: { type: "array", items: { $ref: "#/components/schemas/Session" } },
+                  },
+                },
+              },
+            },
+          },
+          401: errorResponse("Missing or invalid token"),
+        },
+      },
+      post: {
+        summary: "Create a managed session",
+        requestBody: {
+          content: {
+            "application/json": { schema: { $ref: "#/components/schemas/CreateSession" } },
+          },
+        },
+        responses: {
+          201: {
+            description: "The new session",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Session" } },
+            },
+          },
+          400: errorResponse("Invalid options"),
+          403: errorResponse(
+            "View-only or session-scoped token, or options the server's allowlists refuse",
+          ),
+        },
+      },
+    },
+    "/api/sessions/{id}": {
+      parameters: [sessionId],
+      get: {
+        summary: "Get one session",
+        responses: {
+          200: {
+            description: "The session",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Session" } },
+            },
+          },
+          404: errorResponse("No such session"),
+        },
+      },
+      delete: {
+        summary: "Kill a session",
+        responses: {
+          204: { description: "Killed" },
+          403: errorResponse("View-only or session-scoped token"),
+          404: errorResponse("No such session"),
+        },
+      },
+    },
+    "/api/sessions/{id}/screen": {
+      parameters: [sessionId],
+      get: {
+        summary: "Get the visible screen as text",
+        responses: {
+          200: {
+            description: "One line per row, trailing blank rows removed",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["id", "text"],
+                  properties: {
+                    id: { type: "string" },
+                    cols: { type: "integer", description: "Managed sessions only" },
+                    rows: { type: "integer", description: "Managed sessions only" },
+                    text: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          404: errorResponse("No such session"),
+        },
+      },
+    },
+    "/api/sessions/{id}/input": {
+      parameters: [sessionId],
+      post: {
+        summary: "Type into a session",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["data"],
+                properties: {
+                  data: {
+                    type: "string",
+                    description: 'Sent as typed; end a command with "\\r" to run it.',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          204: { description: "Written" },
+          400: errorResponse("`data` missing or not a string"),
+          403: errorResponse("View-only token"),
+          404: errorResponse("No such session"),
+          409: errorResponse("The session is in single-writer mode"),
+          429: errorResponse("Over the input rate limit"),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+      Session: {
+        type: "object",
+        required: [
+          "id",
+          "name",
+          "status",
+          "attachedClients",
+          "source",
+          "createdAt",
+          "lastActivityAt",
+        ],
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          status: { type: "string", enum: ["running", "exited"] },
+          attachedClients: { type: "integer" },
+          source: { type: "string", enum: ["managed", "tmux"] },
+          resizePolicy: { type: "string", enum: [...RESIZE_POLICIES] },
+          cwd: { type: "string", description: "Working directory, when known" },
+          command: { type: "string", description: "Program in the foreground" },
+          createdAt: { type: "integer", description: "Epoch milliseconds" },
+          lastActivityAt: {
+            type: "integer",
+            description: "Epoch milliseconds of the last input or output",
+          },
+        },
+      },
+      CreateSession: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: 'Defaults to "api"' },
+          cols: { type: "integer", minimum: 1, default: 80 },
+          rows: { type: "integer", minimum: 1, default: 24 },
+          command: {
+            type: "array",
+            items: { type: "string" },
+            description: "Run this argv instead of a shell; the session ends when it exits",
+          },
+          shell: { type: "string", description: "A shell other than the server's default" },
+          cwd: { type: "string", description: "Absolute working directory" },
+          env: { type: "object", additionalProperties: { type: "string" } },
+          inheritEnv: {
+            type: "boolean",
+            description: "When false, env replaces the server's environment",
+          },
+          record: { type: "boolean" },
+          resizePolicy: { type: "string", enum: [...RESIZE_POLICIES] },
+          singleWriter: { type: "boolean" },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,134 @@
+export interface AuthLimiterOptions {
+  /** Consecutive failed attempts from one address before it is locked out. */
+  maxFailures: number;
+  /** First lockout; each further one from the same address doubles it. */
+  lockoutMs: number;
+  /** Longest a single lockout can grow to. */
+  maxLockoutMs: number;
+}
+
+export interface Lockout {
+  address: string;
+  /** Epoch ms when the address may try again. */
+  until: number;
+  /** How many times this address has been locked out. */
+  strikes: number;
+}
+
+interface AddressState {
+  failures: number;
+  strikes: number;
+  lockedUntil: number;
+  lastFailure: number;
+}
+
+/**
+ * Tracks failed authentication per client address and locks out addresses
+ * that keep guessing, doubling the lockout each time they come back.
+ */
+export class AuthLimiter {
+  private addresses = new Map<string, AddressState>();
+  private failureCount = 0;
+
+  constructor(
+    private opts: AuthLimiterOptions,
+    private now: () => number = Date.now,
+  ) {}
+
+  /** Milliseconds until `address` may try again; 0 when it is not locked out. */
+  retryAfter(address: string): number {
+    const state = this.addresses.get(address);
+    if (!state) return 0;
+    return Math.max(0, state.lockedUntil - this.now());
+  }
+
+  /** Count a failed attempt; returns the lockout it triggered, if any. */
+  recordFailure(address: string): Lockout | null {
+    this.prune();
+    this.failureCount++;
+    const now = this.now();
+    const state = this.addresses.get(address) ?? {
+      failures: 0,
+      strikes: 0,
+      lockedUntil: 0,
+      lastFailure: 0,
+    };
+    this.addresses.set(address, state);
+    state.lastFailure = now;
+    state.failures++;
+    if (state.failures < this.opts.maxFailures) return null;
+
+    const duration = Math.min(
+      this.opts.lockoutMs * 2 ** state.strikes,
+      this.opts.maxLockoutMs,
+    );
+    state.strikes++;
+    state.failures = 0;
+    state.lockedUntil = now + duration;
+    return { address, until: state.lockedUntil, strikes: state.strikes };
+  }
+
+  /** A successful login clears the address's history. */
+  recordSuccess(address: string): void {
+    this.addresses.delete(address);
+  }
+
+  /** Failed attempts from any address since the limiter was created. */
+  getFailureCount(): number {
+    return this.failureCount;
+  }
+
+  /** Addresses currently locked out. */
+  getLockouts(): Lockout[] {
+    const now = this.now();
+    const lockouts: Lockout[] = [];
+    for (const [address, state] of this.addresses) {
+      if (state.lockedUntil > now) {
+        lockouts.push({ address, until: state.lockedUntil, strikes: state.strikes });
+      }
+    }
+    return lockouts;
+  }
+
+  /** Forget addresses that have been quiet for longer than the longest lockout. */
+  private prune(): void {
+    const cutoff = this.now() - this.opts.maxLockoutMs;
+    for (const [address, state] of this.addresses) {
+      if (state.lastFailure < cutoff && state.lockedUntil < cutoff) {
+        this.addresses.delete(address);
+      }
+    }
+  }
+}
+
+/**
+ * Token bucket: holds up to `capacity` units and refills at `perSecond`.
+ * A capacity of 0 disables the limit.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private capacity: number,
+    private perSecond: number,
+    private now: () => number = Date.now,
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /** Take `amount` units if available; false means the caller is over the limit. */
+  take(amount = 1): boolean {
+    if (this.capacity <= 0) return true;
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond,
+    );
+    this.updatedAt = now;
+    if (amount > this.tokens) return false;
+    this.tokens -= amount;
+    return true;
+  }
+}
@@ -0,0 +1,74 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createReadStream } from "node:fs";
+import { join } from "node:path";
+import type { Config } from "../config.js";
+import { listRecordings } from "../session/session-recorder.js";
+import type { ClientGrant } from "./auth.js";
+
+const ROUTE_PREFIX = "/api/recordings";
+
+export function isRecordingsRoute(pathname: string): boolean {
+  return pathname === ROUTE_PREFIX || pathname.startsWith(ROUTE_PREFIX + "/");
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serves `GET /api/recordings` (list) and `GET /api/recordings/<file>`
+ * (asciicast stream) for an already authenticated request; the caller
+ * checks the token, and only routes paths for which `isRecordingsRoute`
+ * holds.
+ */
+export function handleRecordingsRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+  grant: ClientGrant,
+  config: Config,
+): void {
+  if (req.method !== "GET") {
+    sendJSON(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  // Session-scoped links only see recordings of their own session
+  const recordings = listRecordings(config.recordingsDir).filter(
+    (r) => !grant.sessionId || r.sessionId === grant.sessionId,
+  );
+
+  const file = pathname.slice(ROUTE_PREFIX.length + 1);
+  if (!file) {
+    sendJSON(res, 200, { recordings });
+    return;
+  }
+
+  // Only names from the directory listing are served, which rules out traversal
+  const recording = recordings.find((r) => r.file === file);
+  if (!recording) {
+    sendJSON(res, 404, { error: "Recording not found" });
+    return;
+  }
+
+  // No Content-Length: a live session's recording may still be growing
+  const stream = createReadStream(join(config.recordingsDir, recording.file));
+  stream.on("open", () => {
+    res.writeHead(200, {
+      "Content-Type": "application/x-asciicast",
+      "Cache-Control": "no-store",
+    });
+    stream.pipe(res);
+  });
+  stream.on("error", () => {
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      sendJSON(res, 404, { error: "Recording not found" });
+    }
+  });
+}
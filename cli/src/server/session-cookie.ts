@@ -0,0 +1,79 @@
+import { createHmac } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { constantTimeCompare, type ClientGrant } from "./auth.js";
+
+export const SESSION_COOKIE = "terminalsync_session";
+
+// Marks a credential as a session cookie rather than a raw token
+const PREFIX = "tss1.";
+
+interface SessionClaims extends ClientGrant {
+  /** Epoch ms after which the cookie is refused. */
+  exp: number;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * A signed, self-contained session credential carrying the grant of the
+ * token it was exchanged for. Keyed on the master token, so it survives
+ * server restarts but not a token rotation.
+ */
+export function issueSessionCookie(grant: ClientGrant, secret: string, expiresAt: number): string {
+  const claims: SessionClaims = { ...grant, exp: expiresAt };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${PREFIX}${payload}.${sign(payload, secret)}`;
+}
+
+/** The grant and expiry in a session cookie, or null if it is forged, malformed or expired. */
+export function verifySessionCookie(
+  value: string,
+  secret: string,
+  now = Date.now(),
+): { grant: ClientGrant; expiresAt: number } | null {
+  if (!value.startsWith(PREFIX)) return null;
+  const [payload, signature] = value.slice(PREFIX.length).split(".");
+  if (!payload || !signature || !constantTimeCompare(signature, sign(payload, secret))) {
+    return null;
+  }
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return null;
+  }
+  if (typeof claims.exp !== "number" || claims.exp <= now) return null;
+  const { exp, ...grant } = claims;
+  return { grant, expiresAt: exp };
+}
+
+/** The session cookie's value from a request's Cookie header. */
+export function readSessionCookie(req: IncomingMessage): string | null {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq !== -1 && part.slice(0, eq).trim() === SESSION_COOKIE) {
+      try {
+        return decodeURIComponent(part.slice(eq + 1).trim());
+      } catch {
+        // A malformed escape is no cookie at all, not a reason to throw
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/** Set-Cookie header value: HttpOnly, SameSite=Strict, and Secure when served over HTTPS. */
+export function sessionCookieHeader(value: string, expiresAt: number, secure: boolean): string {
+  const maxAge = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+  return [
+    `${SESSION_COOKIE}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "SameSite=Strict",
+    ...(secure ? ["Secure"] : []),
+  ].join("; ");
+}
@@ -0,0 +1,335 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { recordingOptions, type Config } from "../config.js";
+import {
+  RESIZE_POLICIES,
+  type CreateSessionMessage,
+  type SessionInfo,
+} from "../protocol/messages.js";
+import type { ManagedSessionStore } from "../session/managed-session-store.js";
+import type { ClientHub } from "../session/client-session.js";
+import type { AuditLog, AuditRecord } from "../session/audit-log.js";
+import { resolveSpawn, SpawnNotAllowedError } from "../session/spawn-policy.js";
+import type { TmuxProvider } from "../tmux/tmux-provider.js";
+import type { ClientGrant } from "./auth.js";
+import { TokenBucket } from "./rate-limit.js";
+
+export const SESSIONS_ROUTE = "/api/sessions";
+
+// Requests carry keystrokes and spawn options, never anything large
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Stands in for a WebSocket client id in the audit log
+const API_CLIENT_ID = "api";
+
+export interface SessionsApiContext {
+  config: Config;
+  store: ManagedSessionStore;
+  tmux: TmuxProvider;
+  /** Told about tmux sessions killed through the API, as ClientSession does. */
+  hub: ClientHub;
+  audit: AuditLog | null;
+  /** Remote address of the request, for the audit log. */
+  address: string;
+  /** Input rate limits per token, kept across requests by the caller. */
+  inputLimits: Map<string, InputLimit>;
+}
+
+/** The same message and byte buckets a WebSocket client gets. */
+export interface InputLimit {
+  messages: TokenBucket;
+  bytes: TokenBucket;
+}
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+export function isSessionsRoute(pathname: string): boolean {
+  return pathname === SESSIONS_ROUTE || pathname.startsWith(SESSIONS_ROUTE + "/");
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendNoContent(res: ServerResponse): void {
+  res.writeHead(204, { "Cache-Control": "no-store" });
+  res.end();
+}
+
+function readJSON(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new RequestError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString();
+      let body: unknown;
+      try {
+        body = text ? JSON.parse(text) : {};
+      } catch {
+        reject(new RequestError(400, "Request body is not valid JSON"));
+        return;
+      }
+      if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        reject(new RequestError(400, "Request body must be a JSON object"));
+        return;
+      }
+      resolve(body as Record<string, unknown>);
+    });
+    req.on("error", reject);
+  });
+}
+
+// The same rules as the WebSocket protocol: view tokens cannot type, and
+// session-scoped tokens see only their session and cannot manage any
+function requireWrite(grant: ClientGrant): void {
+  if (grant.scope === "view") {
+    throw new RequestError(403, "This token is view-only");
+  }
+}
+
+function requireManagement(grant: ClientGrant): void {
+  requireWrite(grant);
+  if (grant.sessionId) {
+    throw new RequestError(403, "This token is limited to a single session");
+  }
+}
+
+function requireAccess(grant: ClientGrant, id: string): void {
+  if (grant.sessionId && grant.sessionId !== id) {
+    throw new RequestError(403, "This token does not grant access to that session");
+  }
+}
+
+async function findSession(ctx: SessionsApiContext, id: string): Promise<SessionInfo> {
+  const info = id.startsWith("tmux:")
+    ? (await ctx.tmux.listSessions()).find((s) => s.id === id)
+    : ctx.store.get(id)?.getInfo();
+  if (!info) throw new RequestError(404, `No session with id: ${id}`);
+  return info;
+}
+
+function positiveInt(value: unknown, field: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new RequestError(400, `${field} must be a positive integer`);
+  }
+  return value;
+}
+
+function recordAudit(
+  ctx: SessionsApiContext,
+  grant: ClientGrant,
+  event: AuditRecord["event"],
+  sessionId: string,
+  details: Pick<AuditRecord, "data" | "command"> = {},
+): void {
+  ctx.audit?.write({
+    event,
+    clientId: API_CLIENT_ID,
+    label: grant.label,
+    address: ctx.address,
+    sessionId,
+    ...details,
+  });
+}
+
+async function createSession(
+  req: IncomingMessage,
+  grant: ClientGrant,
+  ctx: SessionsApiContext,
+): Promise<SessionInfo> {
+  requireManagement(grant);
+  const body = (await readJSON(req)) as Partial<CreateSessionMessage["payload"]>;
+  if (body.name !== undefined && typeof body.name !== "string") {
+    throw new RequestError(400, "name must be a string");
+  }
+  if (body.resizePolicy !== undefined && !RESIZE_POLICIES.includes(body.resizePolicy)) {
+    throw new RequestError(400, `resizePolicy must be one of: ${RESIZE_POLICIES.join(", ")}`);
+  }
+  const cols = positiveInt(body.cols, "cols", 80);
+  const rows = positiveInt(body.rows, "rows", 24);
+
+  let spawn;
+  try {
+    spawn = resolveSpawn(body, ctx.config);
+  } catch (err) {
+    if (err instanceof SpawnNotAllowedError) throw new RequestError(403, err.message);
+    throw err;
+  }
+  const session = ctx.store.create({
+    name: body.name?.trim() || "api",
+    shell: spawn.file,
+    args: spawn.args,
+    cwd: spawn.cwd,
+    env: spawn.env,
+    inheritEnv: spawn.inheritEnv,
+    cols,
+    rows,
+    scrollback: ctx.config.defaultScrollbackLines,
+    recording: (body.record ?? ctx.config.recordSessions)
+      ? recordingOptions(ctx.config)
+      : undefined,
+    resizePolicy: body.resizePolicy,
+    singleWriter: body.singleWriter === true,
+  });
+  recordAudit(ctx, grant, "create", session.id, {
+    command: [spawn.file, ...spawn.args].join(" "),
+  });
+  return session.getInfo();
+}
+
+async function screen(
+  ctx: SessionsApiContext,
+  id: string,
+): Promise<{ id: string; cols?: number; rows?: number; text: string }> {
+  await findSession(ctx, id);
+  if (id.startsWith("tmux:")) {
+    const text = await ctx.tmux.capturePane(id.slice(5));
+    return { id, text: text.replace(/\n+$/, "") };
+  }
+  const session = ctx.store.get(id)!;
+  const text = await session.getScreenText();
+  return { id, cols: session.cols, rows: session.rows, text };
+}
+
+/** Charge `data` to the token's input buckets; false when it is over the limit. */
+function takeInput(ctx: SessionsApiContext, grant: ClientGrant, data: string): boolean {
+  const key = grant.tokenId ?? grant.label;
+  let limit = ctx.inputLimits.get(key);
+  if (!limit) {
+    const { inputRateMessages, inputRateBytes } = ctx.config;
+    limit = {
+      messages: new TokenBucket(inputRateMessages, inputRateMessages),
+      bytes: new TokenBucket(inputRateBytes, inputRateBytes),
+    };
+    ctx.inputLimits.set(key, limit);
+  }
+  return limit.messages.take() && limit.bytes.take(Buffer.byteLength(data));
+}
+
+async function input(
+  req: IncomingMessage,
+  grant: ClientGrant,
+  ctx: SessionsApiContext,
+  id: string,
+): Promise<void> {
+  requireWrite(grant);
+  const { data } = await readJSON(req);
+  if (typeof data !== "string") throw new RequestError(400, "data must be a string");
+  if (!takeInput(ctx, grant, data)) throw new RequestError(429, "Too much input; slow down");
+  await findSession(ctx, id);
+
+  if (id.startsWith("tmux:")) {
+    await ctx.tmux.sendKeys(id.slice(5), data);
+  } else {
+    const session = ctx.store.get(id)!;
+    // An API caller can never hold control, so single-writer sessions are off limits
+    if (session.singleWriter) {
+      throw new RequestError(409, "Another client has control of this session");
+    }
+    session.write(data);
+  }
+  recordAudit(ctx, grant, "input", id, { data });
+}
+
+async function kill(grant: ClientGrant, ctx: SessionsApiContext, id: string): Promise<void> {
+  requireManagement(grant);
+  await findSession(ctx, id);
+  if (id.startsWith("tmux:")) {
+    await ctx.tmux.killSession(id.slice(5));
+    ctx.hub.broadcast({ type: "session_removed", seq: 0, payload: { id } }, id);
+  } else {
+    // The store announces the removal, which detaches attached clients
+    ctx.store.remove(id);
+  }
+  recordAudit(ctx, grant, "kill", id);
+}
+
+/**
+ * JSON routes for driving sessions without a WebSocket:
+ *
+ *   GET    /api/sessions             list
+ *   POST   /api/sessions             create (create_session's options)
+ *   GET    /api/sessions/<id>        one session's info
+ *   GET    /api/sessions/<id>/screen visible screen as text
+ *   POST   /api/sessions/<id>/input  type `{"data": "..."}`
+ *   DELETE /api/sessions/<id>        kill
+ *
+ * The caller has already authenticated the request; `grant` is what it allows.
+ */
+export async function handleSessionsRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+  grant: ClientGrant,
+  ctx: SessionsApiContext,
+): Promise<void> {
+  const [id, action, ...extra] = pathname.slice(SESSIONS_ROUTE.length + 1).split("/");
+  const method = req.method ?? "GET";
+
+  try {
+    if (!id) {
+      if (method === "GET") {
+        const managed = ctx.store.list().map((s) => s.getInfo());
+        const sessions = [...managed, ...(await ctx.tmux.listSessions())].filter(
+          (s) => !grant.sessionId || s.id === grant.sessionId,
+        );
+        sendJSON(res, 200, { sessions });
+      } else if (method === "POST") {
+        sendJSON(res, 201, await createSession(req, grant, ctx));
+      } else {
+        throw new RequestError(405, "Method not allowed");
+      }
+      return;
+    }
+
+    requireAccess(grant, id);
+    if (extra.length > 0) throw new RequestError(404, "Not found");
+
+    if (action === undefined) {
+      if (method === "GET") {
+        sendJSON(res, 200, await findSession(ctx, id));
+      } else if (method === "DELETE") {
+        await kill(grant, ctx, id);
+        sendNoContent(res);
+      } else {
+        throw new RequestError(405, "Method not allowed");
+      }
+    } else if (action === "screen") {
+      if (method !== "GET") throw new RequestError(405, "Method not allowed");
+      sendJSON(res, 200, await screen(ctx, id));
+    } else if (action === "input") {
+      if (method !== "POST") throw new RequestError(405, "Method not allowed");
+      await input(req, grant, ctx, id);
+      sendNoContent(res);
+    } else {
+      throw new RequestError(404, "Not found");
+    }
+  } catch (err: unknown) {
+    if (err instanceof RequestError) {
+      sendJSON(res, err.status, { error: err.message });
+    } else {
+      sendJSON(res, 500, { error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+}
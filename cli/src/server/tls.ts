@@ -0,0 +1,143 @@
+import { execFileSync } from "node:child_process";
+import { X509Certificate, randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir, networkInterfaces } from "node:os";
+import { isIP } from "node:net";
+import { join } from "node:path";
+
+export interface TlsMaterial {
+  key: Buffer;
+  cert: Buffer;
+  /** The local CA that signed `cert`; clients on this machine trust it directly. */
+  ca: Buffer;
+  /** SHA-256 fingerprint of `cert`, for pinning on devices that cannot install the CA. */
+  fingerprint: string;
+}
+
+const CA_DAYS = 3650;
+// Apple platforms reject server certificates valid for longer than 825 days
+const SERVER_DAYS = 825;
+// Reissue a little before expiry rather than on the day
+const RENEW_BEFORE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function defaultTlsDir(): string {
+  return join(homedir(), ".terminalsync", "tls");
+}
+
+/** Names a LAN client may reach this machine by: loopback and every external IPv4 address. */
+export function lanAddresses(): string[] {
+  const addresses = ["localhost", "127.0.0.1", "::1"];
+  for (const ifaces of Object.values(networkInterfaces())) {
+    for (const iface of ifaces ?? []) {
+      if (iface.family === "IPv4" && !iface.internal) addresses.push(iface.address);
+    }
+  }
+  return addresses;
+}
+
+function openssl(args: string[], cwd: string): void {
+  try {
+    execFileSync("openssl", args, { cwd, stdio: "pipe" });
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error("TLS needs the openssl command to create certificates; install it or set TERMINALSYNC_TLS=false");
+    }
+    const stderr = (err as { stderr?: Buffer }).stderr?.toString().trim();
+    throw new Error(`openssl ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+function createCa(dir: string): void {
+  openssl(
+    [
+      "req", "-x509", "-new", "-nodes",
+      "-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1",
+      "-keyout", "ca.key", "-out", "ca.crt",
+      "-days", String(CA_DAYS),
+      "-subj", "/CN=TerminalSync Local CA",
+      "-addext", "basicConstraints=critical,CA:TRUE",
+      "-addext", "keyUsage=critical,keyCertSign,cRLSign",
+    ],
+    dir,
+  );
+}
+
+function createServerCert(dir: string, hosts: string[]): void {
+  const altNames = hosts.map((h) => (isIP(h) ? `IP:${h}` : `DNS:${h}`)).join(",");
+  writeFileSync(
+    join(dir, "server.ext"),
+    [
+      `subjectAltName=${altNames}`,
+      "basicConstraints=CA:FALSE",
+      "keyUsage=critical,digitalSignature,keyEncipherment",
+      "extendedKeyUsage=serverAuth",
+      "",
+    ].join("\n"),
+  );
+  openssl(
+    [
+      "req", "-new", "-nodes",
+      "-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1",
+      "-keyout", "server.key", "-out", "server.csr",
+      "-subj", "/CN=TerminalSync",
+    ],
+    dir,
+  );
+  openssl(
+    [
+      "x509", "-req", "-in", "server.csr",
+      "-CA", "ca.crt", "-CAkey", "ca.key",
+      "-set_serial", `0x${randomBytes(16).toString("hex")}`,
+      "-days", String(SERVER_DAYS),
+      "-extfile", "server.ext",
+      "-out", "server.crt",
+    ],
+    dir,
+  );
+  rmSync(join(dir, "server.csr"), { force: true });
+  rmSync(join(dir, "server.ext"), { force: true });
+}
+
+/** Whether an existing server certificate still fits: not near expiry and naming every host. */
+function certificateCovers(certPem: Buffer, hosts: string[]): boolean {
+  const cert = new X509Certificate(certPem);
+  if (new Date(cert.validTo).getTime() - Date.now() < RENEW_BEFORE_MS) return false;
+  return hosts.every((h) => (isIP(h) ? cert.checkIP(h) : cert.checkHost(h)) !== undefined);
+}
+
+/**
+ * Load the local CA and server certificate from `dir`, creating them on
+ * first use. The server certificate is reissued (by the same CA, so
+ * devices that trust it keep working) when the machine's addresses change
+ * or it is about to expire.
+ */
+export function ensureCertificates(dir: string, hosts: string[] = lanAddresses()): TlsMaterial {
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  if (!existsSync(join(dir, "ca.key")) || !existsSync(join(dir, "ca.crt"))) {
+    createCa(dir);
+  }
+  const certPath = join(dir, "server.crt");
+  if (
+    !existsSync(certPath) ||
+    !existsSync(join(dir, "server.key")) ||
+    !certificateCovers(readFileSync(certPath), hosts)
+  ) {
+    createServerCert(dir, hosts);
+  }
+  return readCertificates(dir)!;
+}
+
+/** The certificates in `dir`, or null if the server has not created them yet. */
+export function readCertificates(dir: string): TlsMaterial | null {
+  try {
+    const cert = readFileSync(join(dir, "server.crt"));
+    return {
+      key: readFileSync(join(dir, "server.key")),
+      cert,
+      ca: readFileSync(join(dir, "ca.crt")),
+      fingerprint: new X509Certificate(cert).fingerprint256,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,166 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  readFileSync,
+  writeFileSync,
+  renameSync,
+  mkdirSync,
+  statSync,
+  watchFile,
+  unwatchFile,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import { constantTimeCompare, type TokenScope } from "./auth.js";
+
+export interface AccessToken {
+  id: string;
+  label: string;
+  scope: TokenScope;
+  createdAt: string;
+  expiresAt: string | null;
+  /** When set, the token only grants access to this managed session. */
+  sessionId?: string;
+  /** SHA-256 of the secret; the secret itself is only shown once at creation. */
+  hash: string;
+}
+
+export interface CreateTokenOptions {
+  label: string;
+  scope: TokenScope;
+  expiresAt?: Date | null;
+  sessionId?: string;
+}
+
+interface RegistryFile {
+  tokens: AccessToken[];
+}
+
+export function defaultTokenRegistryPath(): string {
+  return join(homedir(), ".terminalsync", "tokens.json");
+}
+
+function fileStamp(path: string): string {
+  const st = statSync(path);
+  return `${st.mtimeMs}:${st.size}:${st.ino}`;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Named, revocable access tokens persisted as JSON under ~/.terminalsync.
+ * The CLI and the server share the file; the server re-reads it whenever
+ * its mtime changes so tokens minted or revoked by the CLI apply at once.
+ */
+export class TokenRegistry {
+  private tokens: AccessToken[] = [];
+  private loadedStamp = "";
+
+  constructor(readonly path: string = defaultTokenRegistryPath()) {}
+
+  private reload(): void {
+    let stamp: string;
+    try {
+      stamp = fileStamp(this.path);
+    } catch {
+      this.tokens = [];
+      this.loadedStamp = "";
+      return;
+    }
+    if (stamp === this.loadedStamp) return;
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.path, "utf-8")) as RegistryFile;
+      this.tokens = Array.isArray(parsed.tokens) ? parsed.tokens : [];
+    } catch {
+      this.tokens = [];
+    }
+    this.loadedStamp = stamp;
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    const body: RegistryFile = { tokens: this.tokens };
+    writeFileSync(tmpPath, JSON.stringify(body, null, 2) + "\n", { mode: 0o600 });
+    renameSync(tmpPath, this.path);
+    this.loadedStamp = fileStamp(this.path);
+  }
+
+  list(): AccessToken[] {
+    this.reload();
+    return [...this.tokens];
+  }
+
+  get(id: string): AccessToken | undefined {
+    this.reload();
+    return this.tokens.find((t) => t.id === id);
+  }
+
+  create(opts: CreateTokenOptions): { token: string; entry: AccessToken } {
+    this.reload();
+    const token = randomBytes(32).toString("hex");
+    const entry: AccessToken = {
+      id: randomBytes(4).toString("hex"),
+      label: opts.label,
+      scope: opts.scope,
+      createdAt: new Date().toISOString(),
+      expiresAt: opts.expiresAt ? opts.expiresAt.toISOString() : null,
+      hash: hashToken(token),
+    };
+    if (opts.sessionId) entry.sessionId = opts.sessionId;
+    this.tokens.push(entry);
+    this.save();
+    return { token, entry };
+  }
+
+  revoke(id: string): AccessToken | null {
+    this.reload();
+    const entry = this.tokens.find((t) => t.id === id);
+    if (!entry) return null;
+    this.tokens = this.tokens.filter((t) => t !== entry);
+    this.save();
+    return entry;
+  }
+
+  /** Revoke every token bound to a session, e.g. once that session has exited. */
+  revokeSession(sessionId: string): number {
+    this.reload();
+    const remaining = this.tokens.filter((t) => t.sessionId !== sessionId);
+    const removed = this.tokens.length - remaining.length;
+    if (removed > 0) {
+      this.tokens = remaining;
+      this.save();
+    }
+    return removed;
+  }
+
+  /** Returns the registry entry for a presented token if it is known and unexpired. */
+  verify(token: string, now = Date.now()): AccessToken | null {
+    this.reload();
+    const hash = hashToken(token);
+    for (const entry of this.tokens) {
+      if (constantTimeCompare(hash, entry.hash) && !isExpired(entry, now)) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  isActive(id: string, now = Date.now()): boolean {
+    const entry = this.get(id);
+    return entry !== undefined && !isExpired(entry, now);
+  }
+
+  /** Poll the registry file for changes made by other processes. */
+  watch(onChange: () => void, intervalMs = 500): () => void {
+    const listener = () => onChange();
+    watchFile(this.path, { interval: intervalMs }, listener);
+    return () => unwatchFile(this.path, listener);
+  }
+}
+
+export function isExpired(entry: AccessToken, now = Date.now()): boolean {
+  return entry.expiresAt !== null && Date.parse(entry.expiresAt) <= now;
+}
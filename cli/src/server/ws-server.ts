@@ -1,52 +1,68 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { createServer as createHttpsServer } from "node:https";
 import { readFileSync, existsSync } from "node:fs";
 import { resolve, dirname, extname, normalize, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { WebSocketServer, type WebSocket } from "ws";
-import { timingSafeEqual } from "node:crypto";
 import { tunnel as cloudflaredTunnel } from "cloudflared";
-import type { Config } from "../config.js";
+import {
+  auditOptions,
+  authLimiterOptions,
+  perMessageDeflate,
+  recordingOptions,
+  type Config,
+} from "../config.js";
 import { SessionManager } from "../session/session-manager.js";
 import { ManagedSessionStore } from "../session/managed-session-store.js";
 import { TmuxProvider } from "../tmux/tmux-provider.js";
-
-function constantTimeCompare(a: string, b: string): boolean {
-  const bufA = Buffer.from(a);
-  const bufB = Buffer.from(b);
-  if (bufA.length !== bufB.length) {
-    // Still do a compare to avoid timing leak on length
-    timingSafeEqual(bufA, bufA);
-    return false;
-  }
-  return timingSafeEqual(bufA, bufB);
-}
-
-function extractToken(req: IncomingMessage): string | null {
-  // Check query param
-  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-  const queryToken = url.searchParams.get("token");
-  if (queryToken) return queryToken;
-
-  // Check Authorization header
-  const authHeader = req.headers.authorization;
-  if (authHeader?.startsWith("Bearer ")) {
-    return authHeader.slice(7);
-  }
-
-  return null;
-}
+import {
+  checkAuth as checkRequestAuth,
+  clientAddress,
+  extractToken,
+  originAllowed,
+  type AuthCheck,
+} from "./auth.js";
+import {
+  issueSessionCookie,
+  sessionCookieHeader,
+  verifySessionCookie,
+} from "./session-cookie.js";
+import { AuthLimiter } from "./rate-limit.js";
+import { collectMetrics } from "./metrics.js";
+import { handleSessionsRequest, isSessionsRoute, type InputLimit } from "./sessions-api.js";
+import { openApiDocument } from "./openapi.js";
+import { TokenRegistry } from "./token-registry.js";
+import { handleRecordingsRequest, isRecordingsRoute } from "./recordings-api.js";
+import { pruneRecordings } from "../session/session-recorder.js";
+import { defaultTlsDir, ensureCertificates } from "./tls.js";
 
 export async function createWSServer(config: Config): Promise<{
   start: () => void;
   shutdown: () => void;
 }> {
   const store = new ManagedSessionStore();
+  const registry = new TokenRegistry(config.tokensFile);
   const tmux = new TmuxProvider();
 
   const tmuxAvailable = await tmux.isAvailable();
   console.log(`tmux: ${tmuxAvailable ? "available" : "not found (managed sessions only)"}`);
   console.log(`Default shell: ${config.defaultShell}`);
 
+  if (config.audit) {
+    console.log(`Audit log: ${auditOptions(config).file} (redaction: ${config.auditRedact})`);
+  }
+
+  const pruned = pruneRecordings(recordingOptions(config));
+  if (pruned.length > 0) {
+    console.log(`Pruned ${pruned.length} old recording(s)`);
+  }
+
+  const tlsDir = config.tlsDir ?? defaultTlsDir();
+  const tls = config.tls ? ensureCertificates(tlsDir) : null;
+  if (tls) {
+    console.log(`TLS certificate fingerprint (SHA-256): ${tls.fingerprint}`);
+  }
+
   let serverRef: { shutdown: () => void } | null = null;
 
   const sessionManager = new SessionManager(config, store, tmux, () => {
@@ -55,6 +71,8 @@ export async function createWSServer(config: Config): Promise<{
   });
 
   let tunnelUrl: string | null = null;
+  const authLimiter = new AuthLimiter(authLimiterOptions(config));
+  const apiInputLimits = new Map<string, InputLimit>();
   let stopTunnel: (() => void) | null = null;
 
   const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -72,6 +90,82 @@ export async function createWSServer(config: Config): Promise<{
     ".woff2": "font/woff2",
   };
 
+  function checkAuth(req: IncomingMessage): AuthCheck {
+    return checkRequestAuth(req, config, authLimiter, registry);
+  }
+
+  function refuse(res: ServerResponse, auth: { status: 401 | 429; retryAfter?: number }): void {
+    sendJSON(
+      res,
+      auth.status,
+      { error: auth.status === 429 ? "Too many failed attempts" : "Unauthorized" },
+      auth.retryAfter ? { "Retry-After": String(auth.retryAfter) } : {},
+    );
+  }
+
+  function sendJSON(
+    res: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {},
+  ): void {
+    res.writeHead(status, {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+      ...headers,
+    });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * `POST /api/session` trades a link token (Bearer) for a session cookie,
+   * so the token does not have to ride along on every later request;
+   * `GET` reports what the current credential grants and until when.
+   */
+  function handleSessionRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (req.method !== "GET" && req.method !== "POST") {
+      sendJSON(res, 405, { error: "Method not allowed" });
+      return;
+    }
+    // Only a real token can be exchanged, or a cookie could renew itself forever
+    if (req.method === "POST" && !req.headers.authorization?.startsWith("Bearer ")) {
+      sendJSON(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    const auth = checkAuth(req);
+    if (!("grant" in auth)) {
+      refuse(res, auth);
+      return;
+    }
+    const { grant } = auth;
+
+    if (req.method === "GET") {
+      const cookie = verifySessionCookie(extractToken(req) ?? "", config.authToken);
+      sendJSON(res, 200, {
+        scope: grant.scope,
+        sessionId: grant.sessionId,
+        expiresAt: cookie ? new Date(cookie.expiresAt).toISOString() : null,
+      });
+      return;
+    }
+
+    let expiresAt = Date.now() + config.sessionHours * 60 * 60 * 1000;
+    const tokenExpiry = grant.tokenId ? registry.get(grant.tokenId)?.expiresAt : null;
+    if (tokenExpiry) expiresAt = Math.min(expiresAt, Date.parse(tokenExpiry));
+    const secure = tls !== null || req.headers["x-forwarded-proto"] === "https";
+    const cookie = issueSessionCookie(grant, config.authToken, expiresAt);
+    sendJSON(
+      res,
+      200,
+      {
+        scope: grant.scope,
+        sessionId: grant.sessionId,
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+      { "Set-Cookie": sessionCookieHeader(cookie, expiresAt, secure) },
+    );
+  }
+
   function serveFile(res: ServerResponse, filePath: string): boolean {
     // Path traversal protection: ensure resolved path stays within webRoot
     const resolved = normalize(resolve(webRoot, filePath));
@@ -93,7 +187,7 @@ export async function createWSServer(config: Config): Promise<{
     }
   }
 
-  const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
+  const handleRequest = (req: IncomingMessage, res: ServerResponse) => {
     if (req.url === "/health") {
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(
@@ -109,6 +203,88 @@ export async function createWSServer(config: Config): Promise<{
     const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
     let pathname = decodeURIComponent(url.pathname);
 
+    if (pathname === "/api/status") {
+      const auth = checkAuth(req);
+      if (!("grant" in auth)) {
+        refuse(res, auth);
+      } else if (auth.grant.scope !== "full" || auth.grant.sessionId) {
+        sendJSON(res, 403, { error: "Forbidden" });
+      } else {
+        sendJSON(res, 200, {
+          clients: sessionManager.getClientCount(),
+          sessions: store.getRunningCount(),
+          tunnelUrl,
+          lockouts: authLimiter.getLockouts().map((l) => ({
+            address: l.address,
+            until: new Date(l.until).toISOString(),
+            strikes: l.strikes,
+          })),
+        });
+      }
+      return;
+    }
+
+    if (pathname === "/metrics") {
+      const auth = checkAuth(req);
+      if (!("grant" in auth)) {
+        refuse(res, auth);
+      } else if (auth.grant.sessionId) {
+        sendJSON(res, 403, { error: "Forbidden" });
+      } else {
+        collectMetrics({ sessions: sessionManager, store, tmux, authLimiter }).then((text) => {
+          res.writeHead(200, {
+            "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+            "Cache-Control": "no-store",
+          });
+          res.end(text);
+        });
+      }
+      return;
+    }
+
+    if (pathname === "/api/openapi.json") {
+      sendJSON(res, 200, openApiDocument);
+      return;
+    }
+
+    if (isSessionsRoute(pathname)) {
+      // As for WebSockets, browsers may only change things from pages we served
+      if (req.method !== "GET" && !originAllowed(req)) {
+        sendJSON(res, 403, { error: "Forbidden" });
+        return;
+      }
+      const auth = checkAuth(req);
+      if (!("grant" in auth)) {
+        refuse(res, auth);
+        return;
+      }
+      void handleSessionsRequest(req, res, pathname, auth.grant, {
+        config,
+        store,
+        tmux,
+        hub: sessionManager,
+        audit: sessionManager.audit,
+        address: clientAddress(req, config),
+        inputLimits: apiInputLimits,
+      });
+      return;
+    }
+
+    if (pathname === "/api/session") {
+      handleSessionRequest(req, res);
+      return;
+    }
+
+    if (isRecordingsRoute(pathname)) {
+      const auth = checkAuth(req);
+      if (!("grant" in auth)) {
+        refuse(res, auth);
+        return;
+      }
+      handleRecordingsRequest(req, res, pathname, auth.grant, config);
+      return;
+    }
+
     // Serve exact file if it exists
     if (pathname === "/") pathname = "/index.html";
     const relPath = pathname.slice(1); // strip leading /
@@ -119,21 +295,37 @@ export async function createWSServer(config: Config): Promise<{
 
     res.writeHead(404);
     res.end();
-  });
+  };
+  const httpServer = tls
+    ? createHttpsServer({ key: tls.key, cert: tls.cert }, handleRequest)
+    : createServer(handleRequest);
 
-  const wss = new WebSocketServer({ noServer: true });
+  const wss = new WebSocketServer({
+    noServer: true,
+    perMessageDeflate: perMessageDeflate(config),
+  });
 
   httpServer.on("upgrade", (req, socket, head) => {
-    const token = extractToken(req);
+    if (!originAllowed(req)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    const auth = checkAuth(req);
 
-    if (!token || !constantTimeCompare(token, config.authToken)) {
-      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+    if (!("grant" in auth)) {
+      socket.write(
+        auth.status === 429
+          ? `HTTP/1.1 429 Too Many Requests\r\nRetry-After: ${auth.retryAfter}\r\n\r\n`
+          : "HTTP/1.1 401 Unauthorized\r\n\r\n",
+      );
       socket.destroy();
       return;
     }
+    const { grant } = auth;
 
     wss.handleUpgrade(req, socket, head, (ws: WebSocket) => {
-      const client = sessionManager.addClient(ws);
+      const client = sessionManager.addClient(ws, grant, clientAddress(req, config));
       if (!client) {
         ws.close(1013, "Maximum clients reached");
         return;
@@ -141,19 +333,31 @@ export async function createWSServer(config: Config): Promise<{
     });
   });
 
+  // Close live connections whose registry token was revoked or has expired
+  const closeRevoked = () => sessionManager.closeRevokedClients(registry);
+  // Session-scoped share links are useless once their session is gone
+  store.on("session_removed", (sessionId: string) => {
+    registry.revokeSession(sessionId);
+  });
+  const unwatchRegistry = registry.watch(closeRevoked);
+  const expirySweep = setInterval(closeRevoked, 30_000);
+  expirySweep.unref();
+
   const server = {
     start() {
       httpServer.listen(config.port, config.host, () => {
         console.log(
-          `TerminalSync listening on ws://${config.host}:${config.port}`,
+          `TerminalSync listening on ${tls ? "wss" : "ws"}://${config.host}:${config.port}`,
         );
 
         if (config.tunnel) {
-          const localUrl = `http://localhost:${config.port}`;
+          const localUrl = `${tls ? "https" : "http"}://localhost:${config.port}`;
           console.log(`Starting tunnel to ${localUrl}...`);
 
           const { url: urlPromise, stop } = cloudflaredTunnel({
             "--url": localUrl,
+            // Let cloudflared verify our own certificate
+            ...(tls ? { "--origin-ca-pool": join(tlsDir, "ca.crt") } : {}),
           });
           stopTunnel = stop;
 
@@ -167,6 +371,8 @@ export async function createWSServer(config: Config): Promise<{
       });
     },
     shutdown() {
+      unwatchRegistry();
+      clearInterval(expirySweep);
       if (stopTunnel) {
         stopTunnel();
         stopTunnel = null;
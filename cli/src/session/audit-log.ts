@@ -0,0 +1,135 @@
+import { openSync, writeSync, closeSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+
+/**
+ * How much of what clients type reaches the audit log:
+ * - `none` keeps input as typed
+ * - `keys` masks printable characters with `*` but keeps Enter, Ctrl
+ *   combinations and escape sequences, so the shape of activity survives
+ * - `all` drops the input and keeps only its length
+ */
+export type AuditRedaction = "none" | "keys" | "all";
+
+export const AUDIT_REDACTIONS: readonly AuditRedaction[] = ["none", "keys", "all"];
+
+export type AuditEvent = "create" | "attach" | "input" | "detach" | "kill";
+
+export interface AuditRecord {
+  time: string;
+  event: AuditEvent;
+  clientId: string;
+  /** Label of the token the client connected with. */
+  label: string;
+  address: string;
+  sessionId: string;
+  /** Input after redaction; absent when fully redacted. */
+  data?: string;
+  /** Input length in bytes, before redaction. */
+  bytes?: number;
+  /** Program a `create` started. */
+  command?: string;
+}
+
+export interface AuditOptions {
+  file: string;
+  redact: AuditRedaction;
+}
+
+export interface AuditFilter {
+  sessionId?: string;
+  /** Epoch ms; records before this are skipped. */
+  since?: number;
+  /** Epoch ms; records after this are skipped. */
+  until?: number;
+}
+
+export function defaultAuditPath(): string {
+  return join(homedir(), ".terminalsync", "audit.jsonl");
+}
+
+// Control characters and whole CSI/SS3 sequences (arrows, function keys, paste markers)
+const KEEP_OR_MASK = /(\x1b\[[0-?]*[ -/]*[@-~]|\x1bO.|[\x00-\x1f\x7f])|[^]/gu;
+
+export function redactInput(data: string, mode: AuditRedaction): string | undefined {
+  switch (mode) {
+    case "none":
+      return data;
+    case "keys":
+      return data.replace(KEEP_OR_MASK, (match, keep?: string) => keep ?? "*");
+    case "all":
+      return undefined;
+  }
+}
+
+/**
+ * Appends one JSON record per line. Like recordings, writes are synchronous
+ * so nothing typed before an abrupt server exit goes missing.
+ */
+export class AuditLog {
+  readonly path: string;
+  private fd: number | null;
+  private redact: AuditRedaction;
+
+  constructor(opts: AuditOptions) {
+    mkdirSync(dirname(opts.file), { recursive: true });
+    this.path = opts.file;
+    this.redact = opts.redact;
+    this.fd = openSync(this.path, "a", 0o600);
+  }
+
+  /** Append a record; `data` is redacted and measured on the way in. */
+  write(record: Omit<AuditRecord, "time" | "bytes">): void {
+    if (this.fd === null) return;
+    const line: AuditRecord = { time: new Date().toISOString(), ...record };
+    if (record.data !== undefined) {
+      line.bytes = Buffer.byteLength(record.data);
+      line.data = redactInput(record.data, this.redact);
+      if (line.data === undefined) delete line.data;
+    }
+    try {
+      writeSync(this.fd, JSON.stringify(line) + "\n");
+    } catch {
+      // Disk full or file removed — stop auditing rather than break the session
+      this.close();
+    }
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    try {
+      closeSync(this.fd);
+    } catch {
+      // already closed
+    }
+    this.fd = null;
+  }
+}
+
+/** Records from an audit log file, oldest first, that match `filter`. */
+export function readAuditLog(file: string, filter: AuditFilter = {}): AuditRecord[] {
+  let contents: string;
+  try {
+    contents = readFileSync(file, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const records: AuditRecord[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line) continue;
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A line cut short by a crash
+      continue;
+    }
+    if (filter.sessionId !== undefined && record.sessionId !== filter.sessionId) continue;
+    const time = Date.parse(record.time);
+    if (filter.since !== undefined && time < filter.since) continue;
+    if (filter.until !== undefined && time > filter.until) continue;
+    records.push(record);
+  }
+  return records;
+}
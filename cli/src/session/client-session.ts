@@ -1,14 +1,27 @@
 import type { WebSocket } from "ws";
 import type {
+  ClientIdentity,
   ClientMessage,
+  CreateSessionMessage,
+  PresenceClient,
+  ResizePolicy,
   ServerMessage,
   SessionInfo,
 } from "../protocol/messages.js";
-import { parseClientMessage } from "../protocol/messages.js";
-import type { Config } from "../config.js";
+import {
+  parseClientMessage,
+  CLIENT_DEVICES,
+  RESIZE_POLICIES,
+} from "../protocol/messages.js";
+import { recordingOptions, type Config } from "../config.js";
+import type { ClientGrant } from "../server/auth.js";
 import type { ManagedSessionStore } from "./managed-session-store.js";
 import type { ManagedSession } from "./managed-session.js";
 import type { TmuxProvider } from "../tmux/tmux-provider.js";
+import { resolveSpawn, SpawnNotAllowedError } from "./spawn-policy.js";
+import { OutputBatcher } from "./output-batcher.js";
+import { TokenBucket } from "../server/rate-limit.js";
+import type { AuditLog, AuditRecord } from "./audit-log.js";
 import {
   spawnAttach,
   captureScrollback,
@@ -18,18 +31,44 @@ import type { IPty } from "node-pty";
 
 type ClientState = "BROWSING" | "ATTACHED";
 
+const MAX_NAME_LENGTH = 40;
+// How often a stalled client's socket is checked for having drained
+const DRAIN_CHECK_MS = 100;
+
+/** Fan-out to every connected client, for changes others need to see. */
+export interface ClientHub {
+  /** With `sessionId`, only clients whose token can see that session get it. */
+  broadcast(msg: ServerMessage, sessionId?: string): void;
+  /** Push session list changes to this client until it disconnects. */
+  subscribeSessions(client: ClientSession): void;
+}
+
 export class ClientSession {
   readonly id: string;
   private state: ClientState = "BROWSING";
   private config: Config;
   private store: ManagedSessionStore;
   private tmux: TmuxProvider;
+  // Set by `identify`; shown to others attached to the same session
+  private identity: ClientIdentity | undefined;
+  // Terminal output waiting to go out as one binary frame
+  private output: OutputBatcher;
+  // Polls a slow client's socket while its output is held back for a resync
+  private drainTimer: ReturnType<typeof setInterval> | null = null;
+  // Per-second allowances for `input` messages and their bytes
+  private inputMessages: TokenBucket;
+  private inputBytes: TokenBucket;
+  // Frames sent so far, for metrics
+  private framesSent = { output: 0, message: 0 };
 
   // When attached to a managed session
   private attachedSession: ManagedSession | null = null;
   private dataListener: ((data: string) => void) | null = null;
   private exitListener: ((exitCode: number) => void) | null = null;
   private resizeListener: ((cols: number, rows: number) => void) | null = null;
+  private controlListener: ((singleWriter: boolean, controller: string | null) => void) | null = null;
+  private controlRequestListener: ((clientId: string) => void) | null = null;
+  private controlDeniedListener: ((clientId: string) => void) | null = null;
 
   // When attached to a tmux session (legacy path)
   private tmuxPty: IPty | null = null;
@@ -37,14 +76,24 @@ export class ClientSession {
 
   constructor(
     readonly ws: WebSocket,
+    readonly grant: ClientGrant,
+    readonly address: string,
     config: Config,
     store: ManagedSessionStore,
     tmux: TmuxProvider,
+    private hub: ClientHub,
+    private audit: AuditLog | null = null,
   ) {
     this.id = crypto.randomUUID();
     this.config = config;
     this.store = store;
     this.tmux = tmux;
+    this.inputMessages = new TokenBucket(config.inputRateMessages, config.inputRateMessages);
+    this.inputBytes = new TokenBucket(config.inputRateBytes, config.inputRateBytes);
+    this.output = new OutputBatcher((data) => this.sendOutput(data), {
+      windowMs: config.outputBatchMs,
+      maxBytes: config.outputBatchBytes,
+    });
 
     ws.on("message", (data, isBinary) => {
       if (isBinary) return;
@@ -67,16 +116,19 @@ export class ClientSession {
 
   private handleMessage(msg: ClientMessage): void {
     switch (msg.type) {
+      case "identify":
+        this.handleIdentify(msg.seq, msg.payload);
+        break;
       case "list_sessions":
         this.handleListSessions(msg.seq);
         break;
+      case "subscribe_sessions":
+        // Subscribe first so nothing falls between the snapshot and the deltas
+        this.hub.subscribeSessions(this);
+        this.handleListSessions(msg.seq);
+        break;
       case "create_session":
-        this.handleCreateSession(
-          msg.seq,
-          msg.payload.name,
-          msg.payload.cols,
-          msg.payload.rows,
-        );
+        this.handleCreateSession(msg.seq, msg.payload);
         break;
       case "attach":
         this.handleAttach(
@@ -84,6 +136,7 @@ export class ClientSession {
           msg.payload.target,
           msg.payload.cols,
           msg.payload.rows,
+          msg.payload.resumeFrom,
         );
         break;
       case "input":
@@ -95,21 +148,78 @@ export class ClientSession {
       case "detach":
         this.handleDetach(msg.seq);
         break;
+      case "kill_session":
+        this.handleKillSession(msg.seq, msg.payload.target);
+        break;
+      case "rename_session":
+        this.handleRenameSession(msg.seq, msg.payload.target, msg.payload.name);
+        break;
+      case "set_resize_policy":
+        this.handleSetResizePolicy(msg.seq, msg.payload.target, msg.payload.policy);
+        break;
+      case "request_control":
+        this.handleRequestControl(msg.seq);
+        break;
+      case "grant_control":
+        this.handleGrantControl(msg.seq, msg.payload.clientId);
+        break;
+      case "deny_control":
+        this.handleDenyControl(msg.seq, msg.payload.clientId);
+        break;
+      case "set_single_writer":
+        this.handleSetSingleWriter(msg.seq, msg.payload.enabled);
+        break;
+      case "get_commands":
+        void this.handleGetCommands(msg.seq, msg.payload.target);
+        break;
+    }
+  }
+
+  private handleIdentify(seq: number, payload: ClientIdentity): void {
+    // Drop control characters so a name cannot draw on other people's terminals
+    const name =
+      typeof payload.name === "string"
+        ? payload.name.replace(/[\x00-\x1f\x7f-\x9f]/g, "").trim().slice(0, MAX_NAME_LENGTH)
+        : "";
+    if (!name) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "INVALID_NAME", message: "Name cannot be empty" },
+      });
+      return;
+    }
+    const device = CLIENT_DEVICES.includes(payload.device) ? payload.device : "unknown";
+    this.identity = { name, device };
+
+    const session = this.attachedSession;
+    if (session && session.updateClient(this.id, this.identity)) {
+      this.announcePresence(session, {});
     }
   }
 
+  /** Tell every client who is in `session` now, and who just came or went. */
+  private announcePresence(
+    session: ManagedSession,
+    change: { joined?: PresenceClient; left?: PresenceClient },
+  ): void {
+    // Removed or exited sessions are announced through session_removed instead
+    if (session.hasExited() || this.store.get(session.id) !== session) return;
+    this.hub.broadcast({
+      type: "presence",
+      seq: 0,
+      payload: { id: session.id, clients: session.getPresence(), ...change },
+    }, session.id);
+  }
+
   private async handleListSessions(seq: number): Promise<void> {
     try {
-      const managed: SessionInfo[] = this.store.list().map((s) => ({
-        id: s.id,
-        name: s.name,
-        status: s.getStatus(),
-        attachedClients: s.getAttachedClientCount(),
-        source: s.source,
-      }));
+      const managed: SessionInfo[] = this.store.list().map((s) => s.getInfo());
 
       const tmuxSessions = await this.tmux.listSessions();
-      const sessions = [...managed, ...tmuxSessions];
+      const sessions = [...managed, ...tmuxSessions].filter((s) =>
+        this.canAccess(s.id),
+      );
 
       this.sendJSON({
         type: "session_list",
@@ -128,16 +238,50 @@ export class ClientSession {
 
   private handleCreateSession(
     seq: number,
-    name: string,
-    cols: number,
-    rows: number,
+    payload: CreateSessionMessage["payload"],
   ): void {
+    const { name, cols, rows, record, resizePolicy } = payload;
+
+    // Starting a process is as good as typing into one
+    if (this.rejectReadOnly(seq)) return;
+    if (this.grant.sessionId) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "FORBIDDEN",
+          message: "This token is limited to a single session",
+        },
+      });
+      return;
+    }
+
+    if (resizePolicy !== undefined && !RESIZE_POLICIES.includes(resizePolicy)) {
+      this.sendInvalidPolicy(seq, resizePolicy);
+      return;
+    }
+
     try {
+      const spawn = resolveSpawn(payload, this.config);
       const session = this.store.create({
         name,
-        shell: this.config.defaultShell,
+        shell: spawn.file,
+        args: spawn.args,
+        cwd: spawn.cwd,
+        env: spawn.env,
+        inheritEnv: spawn.inheritEnv,
         cols,
         rows,
+        scrollback: this.config.defaultScrollbackLines,
+        recording: (record ?? this.config.recordSessions)
+          ? recordingOptions(this.config)
+          : undefined,
+        resizePolicy,
+        hostClientId: this.id,
+        singleWriter: payload.singleWriter === true,
+      });
+      this.recordAudit("create", session.id, {
+        command: [spawn.file, ...spawn.args].join(" "),
       });
 
       this.sendJSON({
@@ -145,12 +289,19 @@ export class ClientSession {
         seq,
         payload: { id: session.id, name: session.name },
       });
+      if (payload.attach) {
+        // Same tick as the spawn, before the PTY can emit anything
+        this.handleAttach(seq, session.id, cols, rows);
+      }
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       this.sendJSON({
         type: "error",
         seq,
-        payload: { code: "CREATE_FAILED", message },
+        payload: {
+          code: err instanceof SpawnNotAllowedError ? "NOT_ALLOWED" : "CREATE_FAILED",
+          message,
+        },
       });
     }
   }
@@ -160,6 +311,7 @@ export class ClientSession {
     target: string,
     cols: number,
     rows: number,
+    resumeFrom?: number,
   ): Promise<void> {
     if (this.state === "ATTACHED") {
       this.sendJSON({
@@ -173,6 +325,19 @@ export class ClientSession {
       return;
     }
 
+    if (this.rejectInvalidTarget(seq, target)) return;
+    if (!this.canAccess(target)) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "FORBIDDEN",
+          message: "This token does not grant access to that session",
+        },
+      });
+      return;
+    }
+
     // Route: tmux session (target starts with "tmux:")
     if (target.startsWith("tmux:")) {
       await this.attachTmux(seq, target.slice(5), cols, rows);
@@ -200,21 +365,41 @@ export class ClientSession {
     }
 
     this.attachedSession = session;
-    session.attachClient(this.id);
+    // Viewers cannot resize, so their size never counts towards the policy
+    session.attachClient(
+      this.id,
+      this.isReadOnly() ? undefined : { cols, rows },
+      this.identity,
+      this.isReadOnly(),
+    );
     this.state = "ATTACHED";
+    this.recordAudit("attach", session.id);
 
-    // Send buffered output so reconnecting clients see prior content
-    const buffered = session.getBufferedOutput();
-    if (buffered) {
-      this.ws.send(Buffer.from(buffered), { binary: true });
+    // Replay only what a resuming client missed, else a fresh screen snapshot
+    const replay = session.getReplay(resumeFrom);
+
+    this.sendJSON({
+      type: "attached",
+      seq,
+      payload: {
+        target,
+        cols: session.cols,
+        rows: session.rows,
+        readOnly: this.isReadOnly(),
+        offset: replay.offset,
+        gap: replay.gap,
+        clientId: this.id,
+        singleWriter: session.singleWriter,
+        controller: session.controllerId,
+      },
+    });
+    if (replay.data) {
+      this.output.push(replay.data);
     }
+    this.announcePresence(session, { joined: session.getClient(this.id) });
 
     // Subscribe to live output
-    this.dataListener = (data: string) => {
-      if (this.ws.readyState === this.ws.OPEN) {
-        this.ws.send(Buffer.from(data), { binary: true });
-      }
-    };
+    this.dataListener = (data: string) => this.output.push(data);
     this.exitListener = (exitCode: number) => {
       if (this.state === "ATTACHED") {
         this.detachFromManaged();
@@ -224,6 +409,7 @@ export class ClientSession {
           payload: {
             reason: "session_exit",
             message: `Process exited with code ${exitCode}`,
+            exitCode,
           },
         });
       }
@@ -236,15 +422,31 @@ export class ClientSession {
       });
     };
 
+    this.controlListener = (singleWriter: boolean, controller: string | null) => {
+      this.sendJSON({
+        type: "control_changed",
+        seq: 0,
+        payload: { singleWriter, controller },
+      });
+    };
+    // Requests go to whoever may answer them: the holder and the host
+    this.controlRequestListener = (clientId: string) => {
+      if (session.controllerId === this.id || session.isHost(this.id)) {
+        this.sendJSON({ type: "control_requested", seq: 0, payload: { clientId } });
+      }
+    };
+    this.controlDeniedListener = (clientId: string) => {
+      if (clientId === this.id) {
+        this.sendJSON({ type: "control_denied", seq: 0, payload: {} });
+      }
+    };
+
     session.on("data", this.dataListener);
     session.on("exit", this.exitListener);
     session.on("resize", this.resizeListener);
-
-    this.sendJSON({
-      type: "attached",
-      seq,
-      payload: { target, cols: session.cols, rows: session.rows },
-    });
+    session.on("control", this.controlListener);
+    session.on("control_request", this.controlRequestListener);
+    session.on("control_denied", this.controlDeniedListener);
   }
 
   private async attachTmux(
@@ -263,19 +465,34 @@ export class ClientSession {
       this.tmuxPty = ptyProcess;
       this.attachedTarget = `tmux:${tmuxTarget}`;
       this.state = "ATTACHED";
+      this.recordAudit("attach", this.attachedTarget);
+
+      // tmux output has no stream offsets, so every attach is a fresh replay
+      this.sendJSON({
+        type: "attached",
+        seq,
+        payload: {
+          target: `tmux:${tmuxTarget}`,
+          cols,
+          rows,
+          readOnly: this.isReadOnly(),
+          offset: 0,
+          gap: true,
+          clientId: this.id,
+          singleWriter: false,
+          controller: null,
+        },
+      });
 
       if (scrollback) {
-        this.ws.send(Buffer.from(scrollback), { binary: true });
+        this.output.push(scrollback);
       }
 
-      ptyProcess.onData((data: string) => {
-        if (this.ws.readyState === this.ws.OPEN) {
-          this.ws.send(Buffer.from(data), { binary: true });
-        }
-      });
+      ptyProcess.onData((data: string) => this.output.push(data));
 
       ptyProcess.onExit(({ exitCode }) => {
         if (this.state === "ATTACHED") {
+          this.recordAudit("detach", `tmux:${tmuxTarget}`);
           this.state = "BROWSING";
           this.tmuxPty = null;
           this.attachedTarget = null;
@@ -289,12 +506,6 @@ export class ClientSession {
           });
         }
       });
-
-      this.sendJSON({
-        type: "attached",
-        seq,
-        payload: { target: `tmux:${tmuxTarget}`, cols, rows },
-      });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       this.sendJSON({
@@ -306,6 +517,15 @@ export class ClientSession {
   }
 
   private handleInput(seq: number, data: string): void {
+    if (!this.inputMessages.take() || !this.inputBytes.take(Buffer.byteLength(data))) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "RATE_LIMITED", message: "Too much input; slow down" },
+      });
+      return;
+    }
+
     if (this.state !== "ATTACHED") {
       this.sendJSON({
         type: "error",
@@ -315,10 +535,26 @@ export class ClientSession {
       return;
     }
 
+    if (this.rejectReadOnly(seq)) return;
+
+    if (this.attachedSession && !this.attachedSession.canWrite(this.id)) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "NOT_CONTROLLER",
+          message: "Another client has control of this session",
+        },
+      });
+      return;
+    }
+
     if (this.attachedSession) {
-      this.attachedSession.write(data);
-    } else if (this.tmuxPty) {
+      this.attachedSession.write(data, this.id);
+      this.recordAudit("input", this.attachedSession.id, { data });
+    } else if (this.tmuxPty && this.attachedTarget) {
       this.tmuxPty.write(data);
+      this.recordAudit("input", this.attachedTarget, { data });
     }
   }
 
@@ -332,13 +568,383 @@ export class ClientSession {
       return;
     }
 
+    if (this.rejectReadOnly(seq)) return;
+
     if (this.attachedSession) {
-      this.attachedSession.resize(cols, rows);
+      // The session's resize policy decides whether this changes the PTY
+      this.attachedSession.requestResize(this.id, cols, rows);
     } else if (this.tmuxPty) {
       this.tmuxPty.resize(cols, rows);
     }
   }
 
+  private async handleKillSession(seq: number, target: string): Promise<void> {
+    if (this.rejectSessionManagement(seq)) return;
+    if (this.rejectInvalidTarget(seq, target)) return;
+
+    if (target.startsWith("tmux:")) {
+      try {
+        await this.tmux.killSession(target.slice(5));
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.sendJSON({
+          type: "error",
+          seq,
+          payload: { code: "KILL_FAILED", message },
+        });
+        return;
+      }
+      this.recordAudit("kill", target);
+      // Clients attached through tmux see their attach process exit
+      this.hub.broadcast(
+        {
+          type: "session_removed",
+          seq: 0,
+          payload: { id: target },
+        },
+        target,
+      );
+      return;
+    }
+
+    // The store announces the removal, which detaches attached clients
+    if (this.store.remove(target)) {
+      this.recordAudit("kill", target);
+    } else {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "SESSION_NOT_FOUND", message: `No session with id: ${target}` },
+      });
+    }
+  }
+
+  private async handleRenameSession(
+    seq: number,
+    target: string,
+    name: string,
+  ): Promise<void> {
+    if (this.rejectSessionManagement(seq)) return;
+    if (this.rejectInvalidTarget(seq, target)) return;
+
+    const newName = typeof name === "string" ? name.trim() : "";
+    if (!newName) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "INVALID_NAME", message: "Session name cannot be empty" },
+      });
+      return;
+    }
+
+    if (target.startsWith("tmux:")) {
+      // tmux silently rewrites these characters, which would change the id
+      if (/[:.]/.test(newName)) {
+        this.sendJSON({
+          type: "error",
+          seq,
+          payload: {
+            code: "INVALID_NAME",
+            message: "tmux session names cannot contain ':' or '.'",
+          },
+        });
+        return;
+      }
+      try {
+        await this.tmux.renameSession(target.slice(5), newName);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.sendJSON({
+          type: "error",
+          seq,
+          payload: { code: "RENAME_FAILED", message },
+        });
+        return;
+      }
+      this.hub.broadcast(
+        {
+          type: "session_renamed",
+          seq: 0,
+          payload: { id: target, newId: `tmux:${newName}`, name: newName },
+        },
+        target,
+      );
+      return;
+    }
+
+    const session = this.store.get(target);
+    if (!session) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "SESSION_NOT_FOUND", message: `No session with id: ${target}` },
+      });
+      return;
+    }
+    session.rename(newName);
+    this.hub.broadcast(
+      {
+        type: "session_renamed",
+        seq: 0,
+        payload: { id: target, newId: target, name: newName },
+      },
+      target,
+    );
+  }
+
+  private handleSetResizePolicy(seq: number, target: string, policy: ResizePolicy): void {
+    if (this.rejectReadOnly(seq)) return;
+    if (this.rejectInvalidTarget(seq, target)) return;
+    if (!this.canAccess(target)) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "FORBIDDEN",
+          message: "This token does not grant access to that session",
+        },
+      });
+      return;
+    }
+    if (!RESIZE_POLICIES.includes(policy)) {
+      this.sendInvalidPolicy(seq, policy);
+      return;
+    }
+    if (target.startsWith("tmux:")) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "UNSUPPORTED",
+          message: "tmux sessions size themselves; use tmux's window-size option",
+        },
+      });
+      return;
+    }
+
+    const session = this.store.get(target);
+    if (!session) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "SESSION_NOT_FOUND", message: `No session with id: ${target}` },
+      });
+      return;
+    }
+    session.setResizePolicy(policy);
+    this.hub.broadcast(
+      {
+        type: "resize_policy_changed",
+        seq: 0,
+        payload: { id: target, policy },
+      },
+      target,
+    );
+  }
+
+  private async handleGetCommands(seq: number, target: string): Promise<void> {
+    if (this.rejectInvalidTarget(seq, target)) return;
+    if (!this.canAccess(target)) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "FORBIDDEN",
+          message: "This token does not grant access to that session",
+        },
+      });
+      return;
+    }
+    if (target.startsWith("tmux:")) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "UNSUPPORTED",
+          message: "Command history is only kept for managed sessions",
+        },
+      });
+      return;
+    }
+
+    const session = this.store.get(target);
+    if (!session) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "SESSION_NOT_FOUND", message: `No session with id: ${target}` },
+      });
+      return;
+    }
+    const commands = await session.getCommands();
+    this.sendJSON({ type: "commands", seq, payload: { id: target, commands } });
+  }
+
+  private sendInvalidPolicy(seq: number, policy: unknown): void {
+    this.sendJSON({
+      type: "error",
+      seq,
+      payload: {
+        code: "INVALID_POLICY",
+        message: `Unknown resize policy: ${String(policy)}. Use one of: ${RESIZE_POLICIES.join(", ")}`,
+      },
+    });
+  }
+
+  private handleRequestControl(seq: number): void {
+    const session = this.controlTarget(seq);
+    if (!session) return;
+    if (!session.singleWriter) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "NOT_SINGLE_WRITER",
+          message: "Everyone can already type in this session",
+        },
+      });
+      return;
+    }
+    // Granted at once when free; control_changed tells everyone either way
+    session.requestControl(this.id);
+  }
+
+  private handleGrantControl(seq: number, clientId: string): void {
+    const session = this.controlTarget(seq);
+    if (!session || this.rejectNotController(seq, session)) return;
+    if (!session.grantControl(clientId)) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "CLIENT_NOT_FOUND",
+          message: `No attached client with id: ${clientId}`,
+        },
+      });
+    }
+  }
+
+  private handleDenyControl(seq: number, clientId: string): void {
+    const session = this.controlTarget(seq);
+    if (!session || this.rejectNotController(seq, session)) return;
+    if (!session.denyControl(clientId)) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "NO_REQUEST",
+          message: `No pending control request from: ${clientId}`,
+        },
+      });
+    }
+  }
+
+  private handleSetSingleWriter(seq: number, enabled: boolean): void {
+    const session = this.controlTarget(seq);
+    if (!session) return;
+    // Once someone holds control, only they or the host may change the mode
+    if (session.controllerId !== null && this.rejectNotController(seq, session)) return;
+    session.setSingleWriter(enabled === true, this.id);
+  }
+
+  /** The managed session control messages act on, or null after replying with an error. */
+  private controlTarget(seq: number): ManagedSession | null {
+    if (this.state !== "ATTACHED") {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: { code: "NOT_ATTACHED", message: "Not attached to any session" },
+      });
+      return null;
+    }
+    if (this.rejectReadOnly(seq)) return null;
+    if (!this.attachedSession) {
+      this.sendJSON({
+        type: "error",
+        seq,
+        payload: {
+          code: "UNSUPPORTED",
+          message: "Input control is only available for managed sessions",
+        },
+      });
+      return null;
+    }
+    return this.attachedSession;
+  }
+
+  private rejectNotController(seq: number, session: ManagedSession): boolean {
+    if (session.controllerId === this.id || session.isHost(this.id)) return false;
+    this.sendJSON({
+      type: "error",
+      seq,
+      payload: {
+        code: "NOT_CONTROLLER",
+        message: "Only the client with control or the host can do that",
+      },
+    });
+    return true;
+  }
+
+  /** Detach if the managed session this client watches was killed. */
+  onSessionRemoved(sessionId: string): void {
+    const session = this.attachedSession;
+    // A session that exited on its own detaches through its exit listener
+    if (!session || session.id !== sessionId || session.hasExited()) return;
+    this.detachFromManaged();
+    this.sendJSON({
+      type: "detached",
+      seq: 0,
+      payload: { reason: "session_killed", message: "Session was killed" },
+    });
+  }
+
+  canAccess(target: string): boolean {
+    return !this.grant.sessionId || this.grant.sessionId === target;
+  }
+
+  private isReadOnly(): boolean {
+    return this.grant.scope === "view";
+  }
+
+  private rejectReadOnly(seq: number): boolean {
+    if (!this.isReadOnly()) return false;
+    this.sendJSON({
+      type: "error",
+      seq,
+      payload: {
+        code: "READ_ONLY",
+        message: "This connection uses a view-only token",
+      },
+    });
+    return true;
+  }
+
+  /** Messages naming a session must carry its id as a string. */
+  private rejectInvalidTarget(seq: number, target: unknown): boolean {
+    if (typeof target === "string") return false;
+    this.sendJSON({
+      type: "error",
+      seq,
+      payload: { code: "INVALID_MESSAGE", message: "target must be a session id" },
+    });
+    return true;
+  }
+
+  /** Killing or renaming sessions needs a full token that is not tied to one session. */
+  private rejectSessionManagement(seq: number): boolean {
+    if (this.rejectReadOnly(seq)) return true;
+    if (!this.grant.sessionId) return false;
+    this.sendJSON({
+      type: "error",
+      seq,
+      payload: {
+        code: "FORBIDDEN",
+        message: "This token is limited to a single session",
+      },
+    });
+    return true;
+  }
+
   private handleDetach(seq: number): void {
     if (this.state !== "ATTACHED") {
       this.sendJSON({
@@ -373,17 +979,34 @@ export class ClientSession {
       if (this.resizeListener) {
         this.attachedSession.removeListener("resize", this.resizeListener);
       }
-      this.attachedSession.detachClient(this.id);
+      if (this.controlListener) {
+        this.attachedSession.removeListener("control", this.controlListener);
+      }
+      if (this.controlRequestListener) {
+        this.attachedSession.removeListener("control_request", this.controlRequestListener);
+      }
+      if (this.controlDeniedListener) {
+        this.attachedSession.removeListener("control_denied", this.controlDeniedListener);
+      }
+      const session = this.attachedSession;
+      const left = session.getClient(this.id);
+      session.detachClient(this.id);
+      this.recordAudit("detach", session.id);
+      this.announcePresence(session, { left });
     }
     this.attachedSession = null;
     this.dataListener = null;
     this.exitListener = null;
     this.resizeListener = null;
+    this.controlListener = null;
+    this.controlRequestListener = null;
+    this.controlDeniedListener = null;
     this.state = "BROWSING";
   }
 
   private detachFromTmux(): void {
     if (this.tmuxPty) {
+      if (this.attachedTarget) this.recordAudit("detach", this.attachedTarget);
       detachGracefully(this.tmuxPty);
       const pty = this.tmuxPty;
       setTimeout(() => {
@@ -399,7 +1022,74 @@ export class ClientSession {
     this.state = "BROWSING";
   }
 
+  private recordAudit(
+    event: AuditRecord["event"],
+    sessionId: string,
+    details: Pick<AuditRecord, "data" | "command"> = {},
+  ): void {
+    this.audit?.write({
+      event,
+      clientId: this.id,
+      label: this.grant.label,
+      address: this.address,
+      sessionId,
+      ...details,
+    });
+  }
+
+  /**
+   * Stream output unless the socket is backed up. Past `maxBufferedBytes`
+   * the client stops getting output, so a slow link never queues without
+   * bound or holds back the PTY, and catches up from a snapshot once drained.
+   */
+  private sendOutput(data: Buffer): void {
+    if (this.ws.readyState !== this.ws.OPEN || this.drainTimer) return;
+    if (this.ws.bufferedAmount > this.config.maxBufferedBytes) {
+      this.drainTimer = setInterval(() => {
+        if (this.ws.bufferedAmount > this.config.maxBufferedBytes / 4) return;
+        this.stopDrainCheck();
+        void this.resync();
+      }, DRAIN_CHECK_MS);
+      return;
+    }
+    this.ws.send(data, { binary: true });
+    this.framesSent.output++;
+  }
+
+  private stopDrainCheck(): void {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+
+  /** Replace whatever a stalled client missed with the current screen. */
+  private async resync(): Promise<void> {
+    // The snapshot covers anything still waiting
+    this.output.discard();
+    if (this.attachedSession) {
+      const snapshot = this.attachedSession.getSnapshot();
+      this.sendJSON({ type: "resync", seq: 0, payload: { offset: snapshot.offset } });
+      this.output.push(snapshot.data);
+    } else if (this.tmuxPty && this.attachedTarget) {
+      const target = this.attachedTarget;
+      const screen = await captureScrollback(
+        target.slice(5),
+        this.config.defaultScrollbackLines,
+      );
+      if (this.attachedTarget !== target) return;
+      this.sendJSON({ type: "resync", seq: 0, payload: { offset: 0 } });
+      this.output.push(screen);
+    }
+  }
+
+  getFramesSent(): { output: number; message: number } {
+    return { ...this.framesSent };
+  }
+
   cleanup(): void {
+    this.stopDrainCheck();
+    this.output.discard();
     if (this.attachedSession) {
       this.detachFromManaged();
     }
@@ -410,8 +1100,11 @@ export class ClientSession {
   }
 
   sendJSON(msg: ServerMessage): void {
+    // Output produced before this message must reach the client first
+    this.output.flush();
     if (this.ws.readyState === this.ws.OPEN) {
       this.ws.send(JSON.stringify(msg));
+      this.framesSent.message++;
     }
   }
 }
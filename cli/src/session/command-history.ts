@@ -0,0 +1,127 @@
+import type { IMarker, Terminal } from "@xterm/headless";
+import type { CommandInfo } from "../protocol/messages.js";
+
+const DEFAULT_LIMIT = 200;
+
+// The longest command line worth keeping for the timeline
+const MAX_COMMAND_CHARS = 1000;
+
+/** A parsed OSC 133 mark: A prompt, B command line, C output, D finished. */
+export type CommandMark = "A" | "B" | "C" | "D";
+
+interface CommandEntry {
+  info: CommandInfo;
+  prompt: IMarker | undefined;
+}
+
+/**
+ * Builds a timeline of commands from FinalTerm / OSC 133 shell integration
+ * marks. The caller feeds each mark once the emulator has parsed up to it,
+ * so the cursor is where the shell left it; the command line is read off
+ * the screen between the B and C marks.
+ */
+export class CommandHistory {
+  private entries: CommandEntry[] = [];
+  private nextId = 1;
+  // The prompt being edited: where it starts, and where typing begins
+  private prompt: IMarker | undefined;
+  private input: { marker: IMarker | undefined; x: number } | null = null;
+  private running: CommandEntry | null = null;
+
+  constructor(
+    private terminal: Pick<Terminal, "buffer" | "registerMarker">,
+    private limit = DEFAULT_LIMIT,
+  ) {}
+
+  /**
+   * Apply one mark. `offset` is the output stream position just past it;
+   * `params` is whatever followed the letter, e.g. the exit code of D.
+   */
+  mark(kind: CommandMark, params: string, offset: number, cwd?: string): void {
+    switch (kind) {
+      case "A":
+        this.prompt?.dispose();
+        this.prompt = this.terminal.registerMarker(0);
+        break;
+      case "B":
+        this.input?.marker?.dispose();
+        this.input = {
+          marker: this.terminal.registerMarker(0),
+          x: this.terminal.buffer.active.cursorX,
+        };
+        break;
+      case "C":
+        this.start(offset, cwd);
+        break;
+      case "D":
+        this.finish(params, offset);
+        break;
+    }
+  }
+
+  private start(offset: number, cwd?: string): void {
+    // A command that never reported finishing (e.g. the shell was replaced)
+    if (this.running) this.finish("", offset);
+
+    const entry: CommandEntry = {
+      info: {
+        id: this.nextId++,
+        command: this.readCommandLine(),
+        cwd,
+        startedAt: Date.now(),
+        outputStart: offset,
+      },
+      prompt: this.prompt ?? this.input?.marker,
+    };
+    if (entry.prompt !== this.input?.marker) this.input?.marker?.dispose();
+    this.prompt = undefined;
+    this.input = null;
+
+    this.running = entry;
+    this.entries.push(entry);
+    while (this.entries.length > this.limit) {
+      this.entries.shift()!.prompt?.dispose();
+    }
+  }
+
+  private finish(params: string, offset: number): void {
+    // D also closes prompts where nothing ran, such as an empty Enter
+    const entry = this.running;
+    if (!entry) return;
+    this.running = null;
+    entry.info.finishedAt = Date.now();
+    entry.info.outputEnd = offset;
+    const code = params.split(";")[0];
+    if (/^-?\d+$/.test(code)) entry.info.exitCode = Number(code);
+  }
+
+  /** Text from where typing began (B) up to the cursor, which Enter left below it. */
+  private readCommandLine(): string {
+    const input = this.input;
+    if (!input?.marker || input.marker.isDisposed) return "";
+    const buffer = this.terminal.buffer.active;
+    const end = buffer.baseY + buffer.cursorY;
+    let text = "";
+    for (let y = input.marker.line; y <= end; y++) {
+      const line = buffer.getLine(y);
+      if (!line) break;
+      const from = y === input.marker.line ? input.x : 0;
+      const to = y === end ? buffer.cursorX : undefined;
+      // Lines the terminal wrapped continue the same command line
+      if (y > input.marker.line && !line.isWrapped) text += "\n";
+      text += line.translateToString(true, from, to);
+      if (text.length > MAX_COMMAND_CHARS) break;
+    }
+    return text.trim().slice(0, MAX_COMMAND_CHARS);
+  }
+
+  /** Every command kept, oldest first, with how far back each prompt now is. */
+  list(): CommandInfo[] {
+    const buffer = this.terminal.buffer.normal;
+    const cursorLine = buffer.baseY + buffer.cursorY;
+    return this.entries.map(({ info, prompt }) => {
+      if (!prompt || prompt.isDisposed || prompt.line < 0) return { ...info };
+      return { ...info, linesBack: cursorLine - prompt.line };
+    });
+  }
+}
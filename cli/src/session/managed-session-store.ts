@@ -1,13 +1,22 @@
 import { EventEmitter } from "node:events";
 import { ManagedSession, type ManagedSessionOptions } from "./managed-session.js";
+import type { TerminalNotification } from "../protocol/messages.js";
 
 export class ManagedSessionStore extends EventEmitter {
   private sessions = new Map<string, ManagedSession>();
+  private spawnFailures = 0;
 
   create(opts: ManagedSessionOptions): ManagedSession {
-    const session = new ManagedSession(opts);
+    let session: ManagedSession;
+    try {
+      session = new ManagedSession(opts);
+    } catch (err) {
+      this.spawnFailures++;
+      throw err;
+    }
 
     session.on("exit", () => {
+      if (session.didFailToStart()) this.spawnFailures++;
       // Remove exited sessions from the store so clients see them disappear
       this.sessions.delete(session.id);
       session.removeAllListeners();
@@ -17,7 +26,13 @@ export class ManagedSessionStore extends EventEmitter {
       }
     });
 
+    session.on("changed", () => this.emit("session_updated", session));
+    session.on("notification", (notification: TerminalNotification) =>
+      this.emit("session_notification", session, notification),
+    );
+
     this.sessions.set(session.id, session);
+    this.emit("session_added", session);
     this.emit("active");
     return session;
   }
@@ -30,6 +45,11 @@ export class ManagedSessionStore extends EventEmitter {
     return count;
   }
 
+  /** Sessions whose process could not be started, since the store was created. */
+  getSpawnFailures(): number {
+    return this.spawnFailures;
+  }
+
   get(id: string): ManagedSession | undefined {
     return this.sessions.get(id);
   }
@@ -38,12 +58,18 @@ export class ManagedSessionStore extends EventEmitter {
     return Array.from(this.sessions.values());
   }
 
+  /**
+   * Kill a session and drop it at once, without waiting for the PTY to exit.
+   * Only a natural exit emits "idle": whoever removed it is still connected.
+   */
   remove(id: string): boolean {
     const session = this.sessions.get(id);
     if (!session) return false;
+    this.sessions.delete(id);
     session.kill();
     session.removeAllListeners();
-    return this.sessions.delete(id);
+    this.emit("session_removed", id);
+    return true;
   }
 
   shutdown(): void {
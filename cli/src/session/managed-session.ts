@@ -1,28 +1,118 @@
 import { EventEmitter } from "node:events";
+import { basename } from "node:path";
 import * as pty from "node-pty";
+import xtermHeadless from "@xterm/headless";
+import serializeAddon from "@xterm/addon-serialize";
+import type {
+  ClientIdentity,
+  CommandInfo,
+  PresenceClient,
+  ResizePolicy,
+  SessionInfo,
+  TerminalNotification,
+} from "../protocol/messages.js";
+import { CommandHistory, type CommandMark } from "./command-history.js";
+import {
+  SessionRecorder,
+  pruneRecordings,
+  type RecordingOptions,
+} from "./session-recorder.js";
+
+const { Terminal: HeadlessTerminal } = xtermHeadless;
+const { SerializeAddon } = serializeAddon;
 
 const DEFAULT_BUFFER_SIZE = 200 * 1024; // 200KB
+const ANONYMOUS: ClientIdentity = { name: "Anonymous", device: "unknown" };
+const DEFAULT_SCROLLBACK = 1000;
+// On Linux node-pty does not throw when the child cannot start; the forked
+// child prints the failing call's perror() message and exits instead
+const SPAWN_ERROR = /^(?:execvp\(3\)|chdir\(2\)|setgid\(2\)|setuid\(2\)) failed\./;
+// Any OSC sequence: \x1b]N;text terminated by BEL or ST
+const OSC_SEQUENCE = /\x1b\](\d*);?([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+// Longest unterminated OSC sequence carried over to the next chunk
+const MAX_OSC_TAIL = 4096;
+// A program ringing in a loop should not flood every phone
+const BELL_INTERVAL_MS = 1000;
+// OSC 7 working directory report: \x1b]7;file://host/path
+const OSC_CWD = /\x1b\]7;(file:\/\/[^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+// OSC 133 shell integration mark: \x1b]133;A..D[;params]
+const OSC_COMMAND_MARK = /\x1b\]133;([ABCD])(?:;([^\x07\x1b]*))?(?:\x07|\x1b\\)/g;
+
+/**
+ * Prepend `tail`, the cut-off start of an OSC sequence from the previous
+ * chunk, to `data`, and hold back whatever sequence the result in turn
+ * leaves unterminated. `text` is safe to scan; `tail` goes with the next chunk.
+ */
+function carryOscTail(tail: string, data: string): { text: string; tail: string } {
+  const text = tail + data;
+  let open = text.lastIndexOf("\x1b]");
+  if (open !== -1 && /\x07|\x1b\\/.test(text.slice(open))) open = -1;
+  // The chunk may also end between the ESC and the "]"
+  if (open === -1 && text.endsWith("\x1b")) open = text.length - 1;
+  if (open === -1) return { text, tail: "" };
+  return {
+    text: text.slice(0, open),
+    tail: text.length - open <= MAX_OSC_TAIL ? text.slice(open) : "",
+  };
+}
 
 export interface ManagedSessionOptions {
   id?: string;
   name: string;
+  /** Program to spawn: a shell, or a command when `args` are given. */
   shell: string;
+  args?: string[];
+  cwd?: string;
   cols: number;
   rows: number;
   bufferSize?: number;
+  /** Scrollback lines kept by the server-side emulator and sent on attach. */
+  scrollback?: number;
   env?: Record<string, string>;
+  /** Start from the server's environment (default) or from `env` alone. */
+  inheritEnv?: boolean;
   source?: "managed" | "tmux";
+  /** Record output and resizes to an asciicast file when set. */
+  recording?: RecordingOptions;
+  resizePolicy?: ResizePolicy;
+  /**
+   * Client that created the session: the "host" resize policy follows its
+   * size, and it may hand out control in single-writer mode.
+   */
+  hostClientId?: string;
+  /** Only one client may type at a time; the host starts with control. */
+  singleWriter?: boolean;
+}
+
+export interface BufferedOutput {
+  data: string;
+  /**
+   * Stream offset of the first byte of `data`. For screen snapshots this is
+   * chosen so that `offset` plus the byte length of `data` is the live
+   * stream position, letting clients keep counting bytes either way.
+   */
+  offset: number;
+  /** True when the requested offset was no longer (or not yet) buffered. */
+  gap: boolean;
 }
 
 export interface ManagedSessionEvents {
   data: (data: string) => void;
   title: (title: string) => void;
   exit: (exitCode: number) => void;
+  /** Something in getInfo() changed: name, attached clients or resize policy. */
+  changed: () => void;
+  control: (singleWriter: boolean, controller: string | null) => void;
+  control_request: (clientId: string) => void;
+  control_denied: (clientId: string) => void;
+  notification: (notification: TerminalNotification) => void;
 }
 
 export class ManagedSession extends EventEmitter {
   readonly id: string;
   private _name: string;
+  // A user-chosen name sticks; terminal title sequences no longer replace it
+  private renamed = false;
   readonly source: "managed" | "tmux";
 
   get name(): string { return this._name; }
@@ -30,13 +120,51 @@ export class ManagedSession extends EventEmitter {
   private ptyProcess: pty.IPty;
   private ringBuffer: string[] = [];
   private ringBufferBytes = 0;
+  // Stream offsets: total bytes ever emitted, and where the ring buffer starts
+  private outputOffset = 0;
+  private ringBufferStart = 0;
   private maxBufferBytes: number;
-  private attachedClients = new Set<string>();
+  // Bytes written to the PTY by clients, for metrics
+  private inputBytes = 0;
+  private startFailed = false;
+  readonly createdAt = Date.now();
+  private lastActivityAt = this.createdAt;
+  private _cwd: string;
+  // Start of an OSC sequence split across PTY chunks, kept for each scan
+  private oscTail = "";
+  private markTail = "";
+  private cwdTail = "";
+  private lastBellAt = 0;
+  // Attached clients by id, with what other clients see of them
+  private attachedClients = new Map<string, Omit<PresenceClient, "clientId">>();
+  // Size each attached client asked for; the resize policy picks from these
+  private clientSizes = new Map<string, { cols: number; rows: number }>();
+  private _resizePolicy: ResizePolicy;
+  private hostClientId: string | null;
+  private lastWriterId: string | null = null;
+  private lastResizerId: string | null = null;
+  // Single-writer mode: who holds the keyboard, and who is waiting for it
+  private _singleWriter: boolean;
+  private _controllerId: string | null;
+  private controlRequests = new Set<string>();
   private _cols: number;
   private _rows: number;
   private exited = false;
   private exitCode = 0;
 
+  // Headless emulator mirroring the PTY, so attaching clients get an
+  // accurate screen (alternate screen, modes, cursor) instead of raw bytes
+  // that may have been trimmed mid-escape-sequence.
+  private emulator: InstanceType<typeof HeadlessTerminal>;
+  private serializer: InstanceType<typeof SerializeAddon>;
+  private scrollback: number;
+  private emulatorOffset = 0;
+
+  private commands: CommandHistory;
+
+  private recorder: SessionRecorder | null = null;
+  private recordingOptions: RecordingOptions | null;
+
   constructor(opts: ManagedSessionOptions) {
     super();
     this.id = opts.id ?? crypto.randomUUID();
@@ -46,13 +174,46 @@ export class ManagedSession extends EventEmitter {
 
     this._cols = opts.cols;
     this._rows = opts.rows;
+    this._resizePolicy = opts.resizePolicy ?? "host";
+    this.hostClientId = opts.hostClientId ?? null;
+    this._singleWriter = opts.singleWriter ?? false;
+    this._controllerId = this._singleWriter ? this.hostClientId : null;
+    this.scrollback = opts.scrollback ?? DEFAULT_SCROLLBACK;
+    // node-pty starts in the server's directory when none is given
+    this._cwd = opts.cwd ?? process.cwd();
+
+    this.emulator = new HeadlessTerminal({
+      cols: Math.max(opts.cols, 1),
+      rows: Math.max(opts.rows, 1),
+      scrollback: this.scrollback,
+      allowProposedApi: true,
+    });
+    this.serializer = new SerializeAddon();
+    this.emulator.loadAddon(this.serializer);
+    this.commands = new CommandHistory(this.emulator);
+
+    this.recordingOptions = opts.recording ?? null;
+    if (this.recordingOptions) {
+      try {
+        this.recorder = new SessionRecorder(this.recordingOptions, this.id, {
+          cols: opts.cols,
+          rows: opts.rows,
+          title: opts.name,
+          shell: opts.shell,
+        });
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Recording disabled for session ${this.id}: ${message}`);
+      }
+    }
 
-    this.ptyProcess = pty.spawn(opts.shell, [], {
+    this.ptyProcess = pty.spawn(opts.shell, opts.args ?? [], {
       name: "xterm-256color",
       cols: opts.cols,
       rows: opts.rows,
+      cwd: opts.cwd,
       env: {
-        ...process.env,
+        ...(opts.inheritEnv === false ? {} : process.env),
         ...opts.env,
         TERM: "xterm-256color",
         TERMINALSYNC_SESSION: this.id,
@@ -60,11 +221,25 @@ export class ManagedSession extends EventEmitter {
     });
 
     this.ptyProcess.onData((data: string) => {
+      if (this.outputOffset === 0 && SPAWN_ERROR.test(data)) this.startFailed = true;
+      this.lastActivityAt = Date.now();
+      const offset = this.outputOffset;
       this.pushToBuffer(data);
+      this.feedEmulator(data, offset);
+      this.recorder?.output(data);
       const title = this.extractTitle(data);
-      if (title && title !== this._name) {
+      if (title && !this.renamed && title !== this._name) {
         this._name = title;
         this.emit("title", title);
+        this.emit("changed");
+      }
+      const cwd = this.extractCwd(data);
+      if (cwd && cwd !== this._cwd) {
+        this._cwd = cwd;
+        this.emit("changed");
+      }
+      for (const notification of this.extractNotifications(data)) {
+        this.emit("notification", notification);
       }
       this.emit("data", data);
     });
@@ -73,7 +248,78 @@ export class ManagedSession extends EventEmitter {
       this.exited = true;
       this.exitCode = exitCode;
       this.emit("exit", exitCode);
+      this.emulator.dispose();
+      this.stopRecording();
+    });
+  }
+
+  /** Parse `data`, which starts at stream `offset`, handing command marks over as they are reached. */
+  private feedEmulator(data: string, offset: number): void {
+    if (this.exited) return;
+    // Marks are looked for with the previous chunk's cut-off sequence in
+    // front, but the emulator only ever gets each byte once
+    const carried = this.markTail.length;
+    const { text, tail } = carryOscTail(this.markTail, data);
+    this.markTail = tail;
+    let fed = 0;
+    for (const match of text.matchAll(OSC_COMMAND_MARK)) {
+      const end = match.index + match[0].length - carried;
+      offset += this.writeEmulator(data.slice(fed, end));
+      fed = end;
+      const at = offset;
+      const cwd = this._cwd;
+      // Runs once xterm has parsed up to the mark, so the cursor is where the shell left it
+      this.emulator.write("", () => {
+        if (!this.exited) this.commands.mark(match[1] as CommandMark, match[2] ?? "", at, cwd);
+      });
+    }
+    if (fed < data.length) this.writeEmulator(data.slice(fed));
+  }
+
+  private writeEmulator(data: string): number {
+    const byteLen = Buffer.byteLength(data);
+    // xterm parses asynchronously; track how much of the stream it has consumed
+    this.emulator.write(data, () => {
+      this.emulatorOffset += byteLen;
     });
+    return byteLen;
+  }
+
+  private stopRecording(): void {
+    if (!this.recorder || !this.recordingOptions) return;
+    this.recorder.close();
+    this.recorder = null;
+    pruneRecordings(this.recordingOptions);
+  }
+
+  getRecordingPath(): string | null {
+    return this.recorder?.path ?? null;
+  }
+
+  /** The visible screen as plain text, one line per row, without trailing blanks. */
+  async getScreenText(): Promise<string> {
+    if (this.exited) return "";
+    await this.flushEmulator();
+    const buffer = this.emulator.buffer.active;
+    const lines: string[] = [];
+    for (let row = 0; row < this.emulator.rows; row++) {
+      lines.push(buffer.getLine(buffer.viewportY + row)?.translateToString(true) ?? "");
+    }
+    while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    return lines.join("\n");
+  }
+
+  /** Commands run at a shell with OSC 133 integration, oldest first. */
+  async getCommands(): Promise<CommandInfo[]> {
+    if (this.exited) return [];
+    // Marks still waiting in the parser would be missing, and line counts off
+    await this.flushEmulator();
+    return this.exited ? [] : this.commands.list();
+  }
+
+  /** Resolves once the emulator has parsed everything written so far. */
+  flushEmulator(): Promise<void> {
+    return new Promise((resolve) => this.emulator.write("", resolve));
   }
 
   private extractTitle(data: string): string | null {
@@ -82,14 +328,64 @@ export class ManagedSession extends EventEmitter {
     return match ? match[1] : null;
   }
 
+  private extractCwd(data: string): string | null {
+    const { text, tail } = carryOscTail(this.cwdTail, data);
+    this.cwdTail = tail;
+    // Shells report on every prompt; the last report in the chunk wins
+    let cwd: string | null = null;
+    for (const [, uri] of text.matchAll(OSC_CWD)) {
+      try {
+        // The host is ignored: over ssh it names the remote machine, and so does the path
+        cwd = decodeURIComponent(new URL(uri).pathname) || cwd;
+      } catch {
+        // malformed URI
+      }
+    }
+    return cwd;
+  }
+
+  private extractNotifications(data: string): TerminalNotification[] {
+    // Hold back a sequence cut off mid-chunk, so its BEL terminator is
+    // not taken for a bell when the rest arrives
+    const { text, tail } = carryOscTail(this.oscTail, data);
+    this.oscTail = tail;
+
+    const found: TerminalNotification[] = [];
+    const rest = text.replace(OSC_SEQUENCE, (_match, code: string, body: string) => {
+      if (code === "9") {
+        // Numeric subcommands (9;4 progress and the like) are ConEmu extensions
+        if (body && !/^\d+(?:;|$)/.test(body)) found.push({ kind: "notify", text: body });
+      } else if (code === "777") {
+        const [command, title, ...parts] = body.split(";");
+        if (command === "notify" && title !== undefined) {
+          found.push({ kind: "notify", title, text: parts.join(";") });
+        }
+      }
+      return "";
+    });
+
+    // A BEL outside any OSC sequence is the bell itself
+    if (rest.includes("\x07")) {
+      const now = Date.now();
+      if (now - this.lastBellAt >= BELL_INTERVAL_MS) {
+        this.lastBellAt = now;
+        found.push({ kind: "bell", text: "" });
+      }
+    }
+    return found;
+  }
+
   private pushToBuffer(data: string): void {
     const byteLen = Buffer.byteLength(data);
     this.ringBuffer.push(data);
     this.ringBufferBytes += byteLen;
+    this.outputOffset += byteLen;
 
     while (this.ringBufferBytes > this.maxBufferBytes && this.ringBuffer.length > 1) {
       const removed = this.ringBuffer.shift()!;
-      this.ringBufferBytes -= Buffer.byteLength(removed);
+      const removedBytes = Buffer.byteLength(removed);
+      this.ringBufferBytes -= removedBytes;
+      this.ringBufferStart += removedBytes;
     }
   }
 
@@ -97,21 +393,254 @@ export class ManagedSession extends EventEmitter {
     return this.ringBuffer.join("");
   }
 
-  write(data: string): void {
+  /**
+   * Serialized screen plus recent scrollback, followed by any output the
+   * emulator has not parsed yet.
+   */
+  getSnapshot(): BufferedOutput {
+    let data = this.exited ? "" : this.serializer.serialize({ scrollback: this.scrollback });
+    const unparsed = this.getOutputSince(this.emulatorOffset);
+    if (!unparsed.gap) data += unparsed.data;
+    return { data, offset: this.outputOffset - Buffer.byteLength(data), gap: false };
+  }
+
+  /**
+   * What to send an attaching client: the missed output when resuming from
+   * a buffered offset, otherwise a screen snapshot (`gap` set if the client
+   * asked to resume and could not).
+   */
+  getReplay(resumeFrom?: number): BufferedOutput {
+    if (resumeFrom !== undefined) {
+      const missed = this.getOutputSince(resumeFrom);
+      if (!missed.gap) return missed;
+    }
+    return { ...this.getSnapshot(), gap: resumeFrom !== undefined };
+  }
+
+  /** Traffic through the PTY and how full the replay buffer is. */
+  getStats(): {
+    inputBytes: number;
+    outputBytes: number;
+    bufferedBytes: number;
+    bufferCapacity: number;
+  } {
+    return {
+      inputBytes: this.inputBytes,
+      outputBytes: this.outputOffset,
+      bufferedBytes: this.ringBufferBytes,
+      bufferCapacity: this.maxBufferBytes,
+    };
+  }
+
+  /** Offset just past the last byte emitted by the PTY. */
+  getOutputOffset(): number {
+    return this.outputOffset;
+  }
+
+  /**
+   * Output a client has not seen yet, given the offset it has read up to
+   * (or the whole buffer for a fresh client). Falls back to the whole buffer
+   * with `gap` set when the offset has been evicted or is ahead of the
+   * stream (e.g. it came from an older server).
+   */
+  getOutputSince(offset?: number): BufferedOutput {
+    if (offset === undefined) {
+      return { data: this.getBufferedOutput(), offset: this.ringBufferStart, gap: false };
+    }
+    if (offset < this.ringBufferStart || offset > this.outputOffset) {
+      return {
+        data: this.getBufferedOutput(),
+        offset: this.ringBufferStart,
+        gap: true,
+      };
+    }
+
+    const skip = offset - this.ringBufferStart;
+    const all = Buffer.from(this.getBufferedOutput());
+    return { data: all.subarray(skip).toString(), offset, gap: false };
+  }
+
+  /** Write input; `clientId` identifies the typist for the "last-writer" policy. */
+  write(data: string, clientId?: string): void {
     if (!this.exited) {
       this.ptyProcess.write(data);
+      this.inputBytes += Buffer.byteLength(data);
+      this.lastActivityAt = Date.now();
+    }
+    if (clientId && clientId !== this.lastWriterId) {
+      this.lastWriterId = clientId;
+      if (this._resizePolicy === "last-writer") this.applyResizePolicy();
+    }
+  }
+
+  /** Working directory as the shell last reported it with OSC 7, else where it started. */
+  get cwd(): string { return this._cwd; }
+
+  /** Name of the program in the foreground, like tmux's pane_current_command. */
+  getForegroundCommand(): string | undefined {
+    if (this.exited) return undefined;
+    try {
+      // argv[0] of the foreground process group; login shells start with "-"
+      return basename(this.ptyProcess.process).replace(/^-/, "") || undefined;
+    } catch {
+      return undefined;
     }
   }
 
   get cols(): number { return this._cols; }
   get rows(): number { return this._rows; }
+  get resizePolicy(): ResizePolicy { return this._resizePolicy; }
 
-  attachClient(clientId: string): void {
-    this.attachedClients.add(clientId);
+  /** Attach a client, optionally with the terminal size it can show and who it is. */
+  attachClient(
+    clientId: string,
+    size?: { cols: number; rows: number },
+    identity: ClientIdentity = ANONYMOUS,
+    readOnly = false,
+  ): void {
+    this.attachedClients.set(clientId, { ...identity, readOnly });
+    this.emit("changed");
+    if (size && size.cols > 0 && size.rows > 0) {
+      this.clientSizes.set(clientId, { cols: size.cols, rows: size.rows });
+      this.applyResizePolicy();
+    }
   }
 
   detachClient(clientId: string): void {
-    this.attachedClients.delete(clientId);
+    if (!this.attachedClients.delete(clientId)) return;
+    this.controlRequests.delete(clientId);
+    if (this.clientSizes.delete(clientId)) {
+      this.applyResizePolicy();
+    }
+    if (this._controllerId === clientId) {
+      // Control falls back to the host, or is free for the next request
+      const host = this.hostClientId;
+      this.setController(host && this.attachedClients.has(host) ? host : null);
+    }
+    this.emit("changed");
+  }
+
+  /** Change how an attached client appears; false if it is not attached. */
+  updateClient(clientId: string, identity: ClientIdentity): boolean {
+    const client = this.attachedClients.get(clientId);
+    if (!client) return false;
+    this.attachedClients.set(clientId, { ...client, ...identity });
+    this.emit("changed");
+    return true;
+  }
+
+  getClient(clientId: string): PresenceClient | undefined {
+    const client = this.attachedClients.get(clientId);
+    return client && { clientId, ...client };
+  }
+
+  /** Everyone attached, in the order they joined. */
+  getPresence(): PresenceClient[] {
+    return Array.from(this.attachedClients, ([clientId, client]) => ({ clientId, ...client }));
+  }
+
+  get singleWriter(): boolean { return this._singleWriter; }
+  get controllerId(): string | null { return this._controllerId; }
+
+  isHost(clientId: string): boolean {
+    return this.hostClientId === clientId;
+  }
+
+  /** Whether this client's input reaches the PTY. */
+  canWrite(clientId: string): boolean {
+    return !this._singleWriter || this._controllerId === clientId;
+  }
+
+  /** Turning single-writer mode on gives `clientId` control. */
+  setSingleWriter(enabled: boolean, clientId: string): void {
+    this._singleWriter = enabled;
+    this.controlRequests.clear();
+    this._controllerId = enabled ? clientId : null;
+    this.emit("control", this._singleWriter, this._controllerId);
+  }
+
+  /**
+   * Ask for control. Granted at once when nobody holds it; otherwise the
+   * holder and host are notified and false is returned.
+   */
+  requestControl(clientId: string): boolean {
+    if (this._controllerId === clientId) return true;
+    // Free when nobody holds it, e.g. the host created the session but never attached
+    if (this._controllerId === null || !this.attachedClients.has(this._controllerId)) {
+      this.setController(clientId);
+      return true;
+    }
+    this.controlRequests.add(clientId);
+    this.emit("control_request", clientId);
+    return false;
+  }
+
+  /** Hand control to an attached client; false if it is not attached. */
+  grantControl(clientId: string): boolean {
+    if (!this.attachedClients.has(clientId)) return false;
+    this.setController(clientId);
+    return true;
+  }
+
+  /** Turn down a pending request; false if there was none. */
+  denyControl(clientId: string): boolean {
+    if (!this.controlRequests.delete(clientId)) return false;
+    this.emit("control_denied", clientId);
+    return true;
+  }
+
+  private setController(clientId: string | null): void {
+    if (clientId) this.controlRequests.delete(clientId);
+    if (clientId === this._controllerId) return;
+    this._controllerId = clientId;
+    this.emit("control", this._singleWriter, clientId);
+  }
+
+  /** Record the size a client would like; the policy decides what the PTY gets. */
+  requestResize(clientId: string, cols: number, rows: number): void {
+    if (cols <= 0 || rows <= 0) return;
+    this.clientSizes.set(clientId, { cols, rows });
+    this.lastResizerId = clientId;
+    this.applyResizePolicy();
+  }
+
+  setResizePolicy(policy: ResizePolicy): void {
+    this._resizePolicy = policy;
+    this.applyResizePolicy();
+    this.emit("changed");
+  }
+
+  /** The size the current policy picks, or null to keep the current one. */
+  private effectiveSize(): { cols: number; rows: number } | null {
+    const sizes = Array.from(this.clientSizes.values());
+    // Without a known host (e.g. created outside a client), the latest request wins
+    const host = this.hostClientId ?? this.lastResizerId;
+
+    switch (this._resizePolicy) {
+      case "host":
+        return host ? this.clientSizes.get(host) ?? null : null;
+      case "smallest":
+        if (sizes.length === 0) return null;
+        return {
+          cols: Math.min(...sizes.map((s) => s.cols)),
+          rows: Math.min(...sizes.map((s) => s.rows)),
+        };
+      case "largest":
+        if (sizes.length === 0) return null;
+        return {
+          cols: Math.max(...sizes.map((s) => s.cols)),
+          rows: Math.max(...sizes.map((s) => s.rows)),
+        };
+      case "last-writer": {
+        const writer = this.lastWriterId ?? host;
+        return writer ? this.clientSizes.get(writer) ?? null : null;
+      }
+    }
+  }
+
+  private applyResizePolicy(): void {
+    const size = this.effectiveSize();
+    if (size) this.resize(size.cols, size.rows);
   }
 
   resize(cols: number, rows: number): void {
@@ -121,18 +650,25 @@ export class ManagedSession extends EventEmitter {
     this._rows = rows;
     if (!this.exited) {
       this.ptyProcess.resize(cols, rows);
+      this.emulator.resize(cols, rows);
+      this.recorder?.resize(cols, rows);
     }
     this.emit("resize", cols, rows);
   }
 
   getAttachedClients(): string[] {
-    return Array.from(this.attachedClients);
+    return Array.from(this.attachedClients.keys());
   }
 
   getAttachedClientCount(): number {
     return this.attachedClients.size;
   }
 
+  /** True when the process never started: its exec, chdir or setuid failed. */
+  didFailToStart(): boolean {
+    return this.startFailed;
+  }
+
   hasExited(): boolean {
     return this.exited;
   }
@@ -145,6 +681,30 @@ export class ManagedSession extends EventEmitter {
     return this.exited ? "exited" : "running";
   }
 
+  rename(name: string): void {
+    this._name = name;
+    this.renamed = true;
+    this.emit("title", name);
+    this.emit("changed");
+  }
+
+  /** How the session appears in session lists. */
+  getInfo(): SessionInfo {
+    return {
+      id: this.id,
+      name: this._name,
+      status: this.getStatus(),
+      attachedClients: this.attachedClients.size,
+      source: this.source,
+      resizePolicy: this._resizePolicy,
+      clients: this.getPresence(),
+      cwd: this._cwd,
+      command: this.getForegroundCommand(),
+      createdAt: this.createdAt,
+      lastActivityAt: this.lastActivityAt,
+    };
+  }
+
   kill(): void {
     if (!this.exited) {
       try {
@@ -0,0 +1,62 @@
+export interface OutputBatcherOptions {
+  /** Longest a chunk waits for company; 0 sends every chunk at once. */
+  windowMs: number;
+  /** Flush as soon as this many bytes are waiting. */
+  maxBytes: number;
+}
+
+/**
+ * Coalesces PTY output into fewer, larger WebSocket frames. The window
+ * starts with the first waiting chunk, so no output is held back longer
+ * than `windowMs` however busy the PTY is.
+ */
+export class OutputBatcher {
+  private chunks: Buffer[] = [];
+  private bytes = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private sink: (data: Buffer) => void,
+    private opts: OutputBatcherOptions,
+  ) {}
+
+  push(data: string | Buffer): void {
+    const buf = typeof data === "string" ? Buffer.from(data) : data;
+    if (buf.length === 0) return;
+    if (this.opts.windowMs <= 0) {
+      this.sink(buf);
+      return;
+    }
+    this.chunks.push(buf);
+    this.bytes += buf.length;
+    if (this.bytes >= this.opts.maxBytes) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.opts.windowMs);
+    }
+  }
+
+  /** Send whatever is waiting now. */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.chunks.length === 0) return;
+    const data =
+      this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks, this.bytes);
+    this.chunks = [];
+    this.bytes = 0;
+    this.sink(data);
+  }
+
+  /** Drop whatever is waiting, e.g. once the socket is gone. */
+  discard(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.chunks = [];
+    this.bytes = 0;
+  }
+}
@@ -1,16 +1,33 @@
 import type { WebSocket } from "ws";
-import type { Config } from "../config.js";
+import { auditOptions, type Config } from "../config.js";
 import type { ManagedSessionStore } from "./managed-session-store.js";
 import type { TmuxProvider } from "../tmux/tmux-provider.js";
-import { ClientSession } from "./client-session.js";
+import { TmuxWatcher } from "../tmux/tmux-watcher.js";
+import type { ManagedSession } from "./managed-session.js";
+import { ClientSession, type ClientHub } from "./client-session.js";
+import type {
+  ServerMessage,
+  SessionInfo,
+  TerminalNotification,
+} from "../protocol/messages.js";
+import type { ClientGrant } from "../server/auth.js";
+import { AuditLog } from "./audit-log.js";
+import type { TokenRegistry } from "../server/token-registry.js";
 
-export class SessionManager {
+export class SessionManager implements ClientHub {
   private clients = new Map<string, ClientSession>();
+  // Clients that asked for session list deltas, and the tmux poller behind them
+  private subscribers = new Set<ClientSession>();
+  private tmuxWatcher: TmuxWatcher;
   private config: Config;
   private store: ManagedSessionStore;
   private tmux: TmuxProvider;
   private onIdle: (() => void) | null;
   private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Frames sent to clients that have since disconnected
+  private pastFramesSent = { output: 0, message: 0 };
+  /** Shared by every client and the HTTP API; null unless auditing is on. */
+  readonly audit: AuditLog | null;
 
   constructor(
     config: Config,
@@ -22,33 +39,71 @@ export class SessionManager {
     this.store = store;
     this.tmux = tmux;
     this.onIdle = onIdle ?? null;
+    this.audit = config.audit ? new AuditLog(auditOptions(config)) : null;
+
+    this.tmuxWatcher = new TmuxWatcher(tmux);
+    this.tmuxWatcher.on("added", (info: SessionInfo) => this.publishAdded(info));
+    this.tmuxWatcher.on("updated", (info: SessionInfo) => this.publishUpdated(info));
+    this.tmuxWatcher.on("removed", (id: string) =>
+      this.publish({ type: "session_removed", seq: 0, payload: { id } }, id),
+    );
+    store.on("session_added", (s: ManagedSession) => this.publishAdded(s.getInfo()));
+    store.on("session_updated", (s: ManagedSession) => this.publishUpdated(s.getInfo()));
+    // Not only to attached clients: a phone wants to hear from sessions it is not looking at
+    store.on("session_notification", (s: ManagedSession, notification: TerminalNotification) =>
+      this.broadcast(
+        {
+          type: "notification",
+          seq: 0,
+          payload: { sessionId: s.id, sessionName: s.name, ...notification },
+        },
+        s.id,
+      ),
+    );
 
     store.on("idle", () => this.checkIdle());
     store.on("active", () => this.cancelIdleTimer());
     store.on("session_removed", (sessionId: string) => {
-      // Notify all clients so they refresh their session list
       for (const client of this.clients.values()) {
-        client.sendJSON({
+        client.onSessionRemoved(sessionId);
+      }
+      // Notify every client that can see it so they refresh their session list
+      this.broadcast(
+        {
           type: "session_removed",
           seq: 0,
           payload: { id: sessionId },
-        });
-      }
+        },
+        sessionId,
+      );
     });
   }
 
-  addClient(ws: WebSocket): ClientSession | null {
+  addClient(ws: WebSocket, grant: ClientGrant, address: string): ClientSession | null {
     if (this.clients.size >= this.config.maxClients) {
       return null;
     }
 
     this.cancelIdleTimer();
 
-    const session = new ClientSession(ws, this.config, this.store, this.tmux);
+    const session = new ClientSession(
+      ws,
+      grant,
+      address,
+      this.config,
+      this.store,
+      this.tmux,
+      this,
+      this.audit,
+    );
     this.clients.set(session.id, session);
 
     ws.on("close", () => {
+      const frames = session.getFramesSent();
+      this.pastFramesSent.output += frames.output;
+      this.pastFramesSent.message += frames.message;
       this.clients.delete(session.id);
+      this.unsubscribeSessions(session);
       console.log(
         `Client ${session.id} disconnected (${this.clients.size} active)`,
       );
@@ -56,7 +111,7 @@ export class SessionManager {
     });
 
     console.log(
-      `Client ${session.id} connected (${this.clients.size} active)`,
+      `Client ${session.id} connected (${grant.scope}, ${this.clients.size} active)`,
     );
     return session;
   }
@@ -81,17 +136,79 @@ export class SessionManager {
     }
   }
 
+  /** Disconnect clients whose registry token has been revoked or expired. */
+  closeRevokedClients(registry: TokenRegistry): number {
+    let closed = 0;
+    for (const client of this.clients.values()) {
+      const tokenId = client.grant.tokenId;
+      if (tokenId && !registry.isActive(tokenId)) {
+        console.log(`Closing client ${client.id}: token "${client.grant.label}" revoked`);
+        client.cleanup();
+        client.ws.close(4001, "Token revoked");
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  broadcast(msg: ServerMessage, sessionId?: string): void {
+    for (const client of this.clients.values()) {
+      if (sessionId === undefined || client.canAccess(sessionId)) {
+        client.sendJSON(msg);
+      }
+    }
+  }
+
+  subscribeSessions(client: ClientSession): void {
+    this.subscribers.add(client);
+    this.tmuxWatcher.start();
+  }
+
+  private unsubscribeSessions(client: ClientSession): void {
+    this.subscribers.delete(client);
+    if (this.subscribers.size === 0) this.tmuxWatcher.stop();
+  }
+
+  /** Send a session list delta to subscribers allowed to see that session. */
+  private publish(msg: ServerMessage, sessionId: string): void {
+    for (const client of this.subscribers) {
+      if (client.canAccess(sessionId)) client.sendJSON(msg);
+    }
+  }
+
+  private publishAdded(session: SessionInfo): void {
+    this.publish({ type: "session_added", seq: 0, payload: { session } }, session.id);
+  }
+
+  private publishUpdated(session: SessionInfo): void {
+    this.publish({ type: "session_updated", seq: 0, payload: { session } }, session.id);
+  }
+
   getClientCount(): number {
     return this.clients.size;
   }
 
+  /** Frames sent to every client since start, connected or not. */
+  getFramesSent(): { output: number; message: number } {
+    const total = { ...this.pastFramesSent };
+    for (const client of this.clients.values()) {
+      const frames = client.getFramesSent();
+      total.output += frames.output;
+      total.message += frames.message;
+    }
+    return total;
+  }
+
   shutdown(): void {
     this.cancelIdleTimer();
+    this.tmuxWatcher.stop();
+    this.subscribers.clear();
     for (const [id, session] of this.clients) {
       session.cleanup();
       session.ws.close(1001, "Server shutting down");
       this.clients.delete(id);
     }
     this.store.shutdown();
+    this.audit?.close();
   }
 }
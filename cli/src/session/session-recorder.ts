@@ -0,0 +1,145 @@
+import {
+  openSync,
+  writeSync,
+  closeSync,
+  mkdirSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+} from "node:fs";
+import { join } from "node:path";
+
+export interface RecordingOptions {
+  dir: string;
+  /** Total size budget for the recordings directory; oldest files go first. */
+  maxBytes?: number;
+  /** Recordings older than this are deleted. */
+  maxAgeMs?: number;
+}
+
+export interface RecordingInfo {
+  file: string;
+  sessionId: string;
+  size: number;
+  modifiedAt: string;
+}
+
+const CAST_EXT = ".cast";
+
+export function recordingFileName(sessionId: string, startedAt: Date): string {
+  const stamp = startedAt.toISOString().replace(/[:.]/g, "-");
+  return `${stamp}_${sessionId}${CAST_EXT}`;
+}
+
+/**
+ * Writes an asciicast v2 file: a JSON header line followed by one
+ * `[seconds, code, data]` event per line ("o" for output, "r" for resize).
+ * Writes are synchronous so a recording survives an abrupt server exit.
+ */
+export class SessionRecorder {
+  readonly path: string;
+  private fd: number | null;
+  private startedAt: number;
+
+  constructor(
+    opts: RecordingOptions,
+    sessionId: string,
+    header: { cols: number; rows: number; title: string; shell: string },
+  ) {
+    mkdirSync(opts.dir, { recursive: true });
+    const now = new Date();
+    this.path = join(opts.dir, recordingFileName(sessionId, now));
+    this.startedAt = performance.now();
+    this.fd = openSync(this.path, "a", 0o600);
+    this.writeLine({
+      version: 2,
+      width: header.cols,
+      height: header.rows,
+      timestamp: Math.floor(now.getTime() / 1000),
+      title: header.title,
+      env: { TERM: "xterm-256color", SHELL: header.shell },
+    });
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startedAt) / 1000;
+  }
+
+  private writeLine(value: unknown): void {
+    if (this.fd === null) return;
+    try {
+      writeSync(this.fd, JSON.stringify(value) + "\n");
+    } catch {
+      // Disk full or file removed — stop recording rather than break the session
+      this.close();
+    }
+  }
+
+  output(data: string): void {
+    this.writeLine([this.elapsed(), "o", data]);
+  }
+
+  resize(cols: number, rows: number): void {
+    this.writeLine([this.elapsed(), "r", `${cols}x${rows}`]);
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    try {
+      closeSync(this.fd);
+    } catch {
+      // already closed
+    }
+    this.fd = null;
+  }
+}
+
+export function listRecordings(dir: string): RecordingInfo[] {
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith(CAST_EXT));
+  } catch {
+    return [];
+  }
+
+  const recordings: RecordingInfo[] = [];
+  for (const file of files) {
+    try {
+      const st = statSync(join(dir, file));
+      recordings.push({
+        file,
+        sessionId: file.slice(file.indexOf("_") + 1, -CAST_EXT.length),
+        size: st.size,
+        modifiedAt: st.mtime.toISOString(),
+      });
+    } catch {
+      // removed while listing
+    }
+  }
+  // Newest first
+  return recordings.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+/** Apply age and size retention, returning the files that were deleted. */
+export function pruneRecordings(opts: RecordingOptions, now = Date.now()): string[] {
+  const deleted: string[] = [];
+  let total = 0;
+
+  for (const rec of listRecordings(opts.dir)) {
+    const tooOld =
+      opts.maxAgeMs !== undefined && now - Date.parse(rec.modifiedAt) > opts.maxAgeMs;
+    const overBudget = opts.maxBytes !== undefined && total + rec.size > opts.maxBytes;
+
+    if (tooOld || overBudget) {
+      try {
+        unlinkSync(join(opts.dir, rec.file));
+        deleted.push(rec.file);
+      } catch {
+        // already gone
+      }
+    } else {
+      total += rec.size;
+    }
+  }
+  return deleted;
+}
@@ -0,0 +1,145 @@
+import { statSync, realpathSync } from "node:fs";
+import { isAbsolute, sep } from "node:path";
+import type { Config } from "../config.js";
+
+/** What a client asked to run, as sent in `create_session`. */
+export interface SpawnRequest {
+  command?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  inheritEnv?: boolean;
+  shell?: string;
+}
+
+/** A validated request, ready to hand to the PTY. */
+export interface SpawnSpec {
+  file: string;
+  args: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  /** False when `env` is the whole environment rather than additions. */
+  inheritEnv: boolean;
+}
+
+/** Raised when a request falls outside the server's allowlists. */
+export class SpawnNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpawnNotAllowedError";
+  }
+}
+
+export const ALLOW_ANY = "*";
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Never settable by clients: loader hooks, and the server's own variables
+const RESERVED_ENV = /^(LD_|DYLD_|TERMINALSYNC_)/;
+
+/** Whether clients may set this variable at all, before any allowlist. */
+export function isSettableEnvName(name: string): boolean {
+  return ENV_NAME.test(name) && !RESERVED_ENV.test(name);
+}
+
+function allows(list: string[], value: string): boolean {
+  return list.includes(ALLOW_ANY) || list.includes(value);
+}
+
+function isWithin(dir: string, root: string): boolean {
+  return dir === root || dir.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+function resolveCwd(cwd: string, allowed: string[]): string {
+  if (!isAbsolute(cwd)) {
+    throw new SpawnNotAllowedError(`Working directory must be absolute: ${cwd}`);
+  }
+  let real: string;
+  try {
+    real = realpathSync(cwd);
+  } catch {
+    throw new SpawnNotAllowedError(`No such directory: ${cwd}`);
+  }
+  if (!statSync(real).isDirectory()) {
+    throw new SpawnNotAllowedError(`Not a directory: ${cwd}`);
+  }
+  if (allowed.includes(ALLOW_ANY)) return real;
+
+  // Compare real paths so symlinks cannot escape an allowed root
+  const roots = allowed.flatMap((root) => {
+    try {
+      return [realpathSync(root)];
+    } catch {
+      return [];
+    }
+  });
+  if (!roots.some((root) => isWithin(real, root))) {
+    throw new SpawnNotAllowedError(`Working directory not allowed: ${cwd}`);
+  }
+  return real;
+}
+
+/**
+ * Check a create_session request against the allowlists in Config and turn
+ * it into what to spawn. Without options this is the default shell, as before.
+ */
+export function resolveSpawn(req: SpawnRequest, config: Config): SpawnSpec {
+  const spec: SpawnSpec = { file: config.defaultShell, args: [], inheritEnv: true };
+
+  if (req.command !== undefined && req.shell !== undefined) {
+    throw new SpawnNotAllowedError("Specify either a command or a shell, not both");
+  }
+
+  if (req.command !== undefined) {
+    const command = req.command;
+    if (
+      !Array.isArray(command) ||
+      command.length === 0 ||
+      !command.every((arg) => typeof arg === "string") ||
+      !command[0]
+    ) {
+      throw new SpawnNotAllowedError("command must be a non-empty array of strings");
+    }
+    // Entries match exactly: "npm" permits PATH lookup, "/usr/bin/npm" only that path
+    if (!allows(config.allowedCommands, command[0])) {
+      throw new SpawnNotAllowedError(`Command not allowed: ${command[0]}`);
+    }
+    spec.file = command[0];
+    spec.args = command.slice(1);
+  }
+
+  if (req.shell !== undefined) {
+    if (typeof req.shell !== "string" || !config.allowedShells.includes(req.shell)) {
+      throw new SpawnNotAllowedError(`Shell not allowed: ${String(req.shell)}`);
+    }
+    spec.file = req.shell;
+  }
+
+  if (req.cwd !== undefined) {
+    if (typeof req.cwd !== "string") {
+      throw new SpawnNotAllowedError("cwd must be a string");
+    }
+    spec.cwd = resolveCwd(req.cwd, config.allowedCwds);
+  }
+
+  if (req.env !== undefined) {
+    if (typeof req.env !== "object" || req.env === null || Array.isArray(req.env)) {
+      throw new SpawnNotAllowedError("env must be an object of strings");
+    }
+    const env: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.env)) {
+      if (!isSettableEnvName(name) || !allows(config.allowedEnv, name)) {
+        throw new SpawnNotAllowedError(`Environment variable not allowed: ${name}`);
+      }
+      if (typeof value !== "string") {
+        throw new SpawnNotAllowedError(`Environment variable ${name} must be a string`);
+      }
+      env[name] = value;
+    }
+    spec.env = env;
+  }
+
+  if (req.inheritEnv === false) {
+    spec.inheritEnv = false;
+  }
+
+  return spec;
+}
@@ -16,13 +16,14 @@ function parseSessions(raw: string): Map<string, TmuxSession> {
   if (!raw) return sessions;
 
   for (const line of raw.split("\n")) {
-    const [name, id, created, attached] = line.split("\t");
+    const [name, id, created, attached, activity] = line.split("\t");
     if (!name) continue;
     sessions.set(name, {
       sessionName: name,
       sessionId: id,
       sessionCreated: parseInt(created, 10),
       sessionAttached: parseInt(attached, 10),
+      sessionActivity: parseInt(activity, 10),
       windows: [],
     });
   }
@@ -55,7 +56,7 @@ function parsePanes(raw: string): Map<string, TmuxPane[]> {
   if (!raw) return panesByWindow;
 
   for (const line of raw.split("\n")) {
-    const [wId, pId, pIndex, pTitle, pWidth, pHeight, pPid, pCmd, pActive] =
+    const [wId, pId, pIndex, pTitle, pWidth, pHeight, pPid, pCmd, pActive, ...pPath] =
       line.split("\t");
     if (!wId) continue;
 
@@ -68,6 +69,8 @@ function parsePanes(raw: string): Map<string, TmuxPane[]> {
       paneHeight: parseInt(pHeight, 10),
       panePid: parseInt(pPid, 10),
       paneCurrentCommand: pCmd,
+      // Last in the format, so a tab in the path cannot shift the other fields
+      paneCurrentPath: pPath.join("\t"),
       paneActive: pActive === "1",
     });
     panesByWindow.set(wId, panes);
@@ -81,7 +84,7 @@ export async function listSessions(): Promise<TmuxSession[]> {
     sessionsRaw = await runTmux([
       "list-sessions",
       "-F",
-      "#{session_name}\t#{session_id}\t#{session_created}\t#{session_attached}",
+      "#{session_name}\t#{session_id}\t#{session_created}\t#{session_attached}\t#{session_activity}",
     ]);
   } catch (err: unknown) {
     const message =
@@ -106,7 +109,7 @@ export async function listSessions(): Promise<TmuxSession[]> {
     "list-panes",
     "-a",
     "-F",
-    "#{window_id}\t#{pane_id}\t#{pane_index}\t#{pane_title}\t#{pane_width}\t#{pane_height}\t#{pane_pid}\t#{pane_current_command}\t#{pane_active}",
+    "#{window_id}\t#{pane_id}\t#{pane_index}\t#{pane_title}\t#{pane_width}\t#{pane_height}\t#{pane_pid}\t#{pane_current_command}\t#{pane_active}\t#{pane_current_path}",
   ]);
   const panesByWindow = parsePanes(panesRaw);
 
@@ -2,11 +2,14 @@ import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 import { listSessions } from "./discovery.js";
 import type { SessionInfo } from "../protocol/messages.js";
+import { Histogram } from "../server/metrics.js";
 
 const execFileAsync = promisify(execFile);
 
 export class TmuxProvider {
   private available: boolean | null = null;
+  /** Seconds each `tmux list-*` round trip took. */
+  readonly discoveryLatency = new Histogram([0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]);
 
   async isAvailable(): Promise<boolean> {
     if (this.available !== null) return this.available;
@@ -20,11 +23,40 @@ export class TmuxProvider {
     return this.available;
   }
 
+  async killSession(name: string): Promise<void> {
+    // "=" makes tmux match the session name exactly rather than by prefix
+    await execFileAsync("tmux", ["kill-session", "-t", `=${name}`], { timeout: 5000 });
+  }
+
+  async renameSession(name: string, newName: string): Promise<void> {
+    await execFileAsync("tmux", ["rename-session", "-t", `=${name}`, newName], {
+      timeout: 5000,
+    });
+  }
+
+  /** Type `data` into the session's active pane, byte for byte. */
+  async sendKeys(name: string, data: string): Promise<void> {
+    // -l skips key-name lookup, so "Enter" is typed as text and "\r" as Enter
+    await execFileAsync("tmux", ["send-keys", "-t", `=${name}:`, "-l", "--", data], {
+      timeout: 5000,
+    });
+  }
+
+  /** The visible contents of the session's active pane as plain text. */
+  async capturePane(name: string): Promise<string> {
+    const { stdout } = await execFileAsync("tmux", ["capture-pane", "-p", "-t", `=${name}:`], {
+      timeout: 5000,
+    });
+    return stdout;
+  }
+
   async listSessions(): Promise<SessionInfo[]> {
     if (!(await this.isAvailable())) return [];
 
     try {
+      const started = performance.now();
       const tmuxSessions = await listSessions();
+      this.discoveryLatency.observe((performance.now() - started) / 1000);
       return tmuxSessions.map((s) => {
         // Find the active pane's title from the active window
         const activeWindow = s.windows.find(w => w.windowActive) ?? s.windows[0];
@@ -36,6 +68,11 @@ export class TmuxProvider {
           status: "running" as const,
           attachedClients: s.sessionAttached,
           source: "tmux" as const,
+          cwd: activePane?.paneCurrentPath || undefined,
+          command: activePane?.paneCurrentCommand || undefined,
+          // tmux counts in seconds
+          createdAt: s.sessionCreated * 1000,
+          lastActivityAt: (s.sessionActivity || s.sessionCreated) * 1000,
         };
       });
     } catch {
@@ -0,0 +1,89 @@
+import { EventEmitter } from "node:events";
+import type { SessionInfo } from "../protocol/messages.js";
+import type { TmuxProvider } from "./tmux-provider.js";
+
+const DEFAULT_INTERVAL_MS = 2000;
+
+/**
+ * Polls tmux on behalf of every subscribed client and emits only what
+ * changed: "added" and "updated" with the session, "removed" with its id.
+ * Polling runs only while someone is watching.
+ */
+export class TmuxWatcher extends EventEmitter {
+  private sessions = new Map<string, SessionInfo>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<void> | null = null;
+  // The first poll after start() is a baseline; subscribers already got a full list
+  private primed = false;
+
+  constructor(
+    private tmux: Pick<TmuxProvider, "listSessions">,
+    private intervalMs = DEFAULT_INTERVAL_MS,
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Start from scratch next time rather than diffing against stale state
+    this.sessions.clear();
+    this.primed = false;
+  }
+
+  /** Diff the current tmux sessions against the last poll. */
+  poll(): Promise<void> {
+    // tmux can take longer than the interval; share the running poll instead
+    if (!this.inFlight) {
+      this.inFlight = this.diff().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async diff(): Promise<void> {
+    const current = await this.tmux.listSessions();
+    // Stopped while tmux was answering
+    if (!this.timer) return;
+
+    const announce = this.primed;
+    this.primed = true;
+    const seen = new Set<string>();
+    for (const info of current) {
+      seen.add(info.id);
+      const previous = this.sessions.get(info.id);
+      this.sessions.set(info.id, info);
+      if (!announce) continue;
+      if (!previous) {
+        this.emit("added", info);
+      } else if (!sameInfo(previous, info)) {
+        this.emit("updated", info);
+      }
+    }
+    for (const id of this.sessions.keys()) {
+      if (!seen.has(id)) {
+        this.sessions.delete(id);
+        this.emit("removed", id);
+      }
+    }
+  }
+}
+
+function sameInfo(a: SessionInfo, b: SessionInfo): boolean {
+  return (
+    a.name === b.name &&
+    a.status === b.status &&
+    a.attachedClients === b.attachedClients &&
+    a.cwd === b.cwd &&
+    a.command === b.command
+  );
+}
@@ -6,6 +6,7 @@ export interface TmuxPane {
   paneHeight: number;
   panePid: number;
   paneCurrentCommand: string;
+  paneCurrentPath: string;
   paneActive: boolean;
 }
 
@@ -22,5 +23,6 @@ export interface TmuxSession {
   sessionId: string;
   sessionCreated: number;
   sessionAttached: number;
+  sessionActivity: number;
   windows: TmuxWindow[];
 }
@@ -2,7 +2,18 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Terminal as XTerm } from "@xterm/xterm";
 import Drawer from "./Drawer";
 import TerminalView from "./Terminal";
-import { Menu, Wifi, WifiOff, Loader2 } from "lucide-react";
+import Player from "./Player";
+import Timeline, { type Command } from "./Timeline";
+import { Menu, Wifi, WifiOff, Loader2, Eye, Keyboard, Bell, History } from "lucide-react";
+
+export type ResizePolicy = "host" | "smallest" | "largest" | "last-writer";
+
+export interface PresenceClient {
+  clientId: string;
+  name: string;
+  device: string;
+  readOnly: boolean;
+}
 
 export interface Session {
   id: string;
@@ -10,30 +21,114 @@ export interface Session {
   status: string;
   attachedClients: number;
   source: string;
+  resizePolicy?: ResizePolicy;
+  clients?: PresenceClient[];
+  cwd?: string;
+  command?: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  /** Epoch milliseconds; only as fresh as the last list or update. */
+  lastActivityAt: number;
+}
+
+/** Single-writer state of the attached session, as the server reports it. */
+interface Control {
+  clientId: string | null;
+  singleWriter: boolean;
+  controller: string | null;
+}
+
+const NO_CONTROL: Control = { clientId: null, singleWriter: false, controller: null };
+
+const NAME_KEY = "terminalsync:name";
+
+function loadName(): string {
+  try {
+    return localStorage.getItem(NAME_KEY) || "Browser";
+  } catch {
+    return "Browser";
+  }
 }
 
 type ConnStatus = "connecting" | "connected" | "disconnected" | "error";
 
+/** A bell or OSC 9/777 notification from one of the sessions. */
+interface TerminalNotification {
+  sessionId: string;
+  sessionName: string;
+  kind: "bell" | "notify";
+  title?: string;
+  text: string;
+}
+
+// Set once `new Notification` has thrown: Chrome on Android only shows them from a service worker
+let notificationsUnsupported = false;
+
+/** Browser notification permission, or null where the API is missing (e.g. plain HTTP). */
+function notificationPermission(): NotificationPermission | null {
+  if (notificationsUnsupported) return null;
+  return "Notification" in window && window.isSecureContext ? Notification.permission : null;
+}
+
+/**
+ * Read `#token` or `#token/sessionId` from a shared link. Once the token has
+ * been traded for a cookie, `clearHashToken` leaves just `#/sessionId`.
+ */
 function parseHash(): { token: string; sessionId: string | null } {
   if (location.hash.length <= 1) return { token: "", sessionId: null };
   const val = decodeURIComponent(location.hash.slice(1));
   const idx = val.indexOf("/");
   if (idx !== -1)
-    return { token: val.slice(0, idx), sessionId: val.slice(idx + 1) };
+    return { token: val.slice(0, idx), sessionId: val.slice(idx + 1) || null };
   return { token: val, sessionId: null };
 }
 
+/** Drop the token from the address bar and history, keeping the session to reopen. */
+function clearHashToken(sessionId: string | null): void {
+  const hash = sessionId ? `#/${encodeURIComponent(sessionId)}` : "";
+  history.replaceState(null, "", location.pathname + location.search + hash);
+}
+
+/**
+ * Trade the link token for an HttpOnly session cookie, or with no token
+ * check that the cookie from an earlier visit is still good. Resolves
+ * false when the server refuses; rejects when it cannot be reached.
+ */
+async function openSession(token: string): Promise<boolean> {
+  const res = await fetch(
+    "/api/session",
+    token
+      ? { method: "POST", headers: { Authorization: `Bearer ${token}` } }
+      : { method: "GET" },
+  );
+  return res.ok;
+}
+
 export default function App() {
-  const { token, sessionId: hashSessionId } = parseHash();
+  // Read once: the token leaves the URL as soon as it is exchanged
+  const [{ token, sessionId: hashSessionId }] = useState(parseHash);
 
   const [status, setStatus] = useState<ConnStatus>("disconnected");
   const [sessions, setSessions] = useState<Session[]>([]);
   const [attachedId, setAttachedId] = useState<string | null>(null);
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [hostCols, setHostCols] = useState<number | null>(null);
+  const [readOnly, setReadOnly] = useState(false);
+  const [playerOpen, setPlayerOpen] = useState(false);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  // Command history of the attached session; null until it arrives
+  const [commands, setCommands] = useState<Command[] | null>(null);
+  const [control, setControl] = useState<Control>(NO_CONTROL);
+  // Clients waiting for us to grant or deny control
+  const [controlRequests, setControlRequests] = useState<string[]>([]);
+  const [requesting, setRequesting] = useState(false);
+  const [displayName, setDisplayName] = useState(loadName);
+  // The link was bad or the session cookie has expired
+  const [signedOut, setSignedOut] = useState(false);
+  const [notifyPermission, setNotifyPermission] = useState(notificationPermission);
+  const displayNameRef = useRef(displayName);
   const wsRef = useRef<WebSocket | null>(null);
   const seqRef = useRef(0);
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const autoAttachRef = useRef<string | null>(hashSessionId);
   const reattachRef = useRef<string | null>(null);
   const switchingRef = useRef(false);
@@ -44,6 +139,15 @@ export default function App() {
   // attachedIdRef still holds the old session ID for UI stability.
   const wsAttachedRef = useRef(false);
   const pendingDataRef = useRef<Uint8Array[]>([]);
+  const readOnlyRef = useRef(false);
+  const controlRef = useRef<Control>(NO_CONTROL);
+  const requestingRef = useRef(false);
+  // Stream offset of the next output byte for the attached session, so a
+  // reconnect only asks the server for what we missed.
+  const offsetRef = useRef<number | null>(null);
+  const resumingRef = useRef<string | null>(null);
+  // Size the terminal container could show, offered to the server's resize policy
+  const fitRef = useRef<{ cols: number; rows: number } | null>(null);
 
   useEffect(() => {
     attachedIdRef.current = attachedId;
@@ -61,7 +165,7 @@ export default function App() {
   }, [sendMsg]);
 
   const attachTo = useCallback(
-    (id: string) => {
+    (id: string, resumeFrom?: number) => {
       const ws = wsRef.current;
       if (!ws || ws.readyState !== WebSocket.OPEN) return;
       if (attachedIdRef.current) {
@@ -70,16 +174,58 @@ export default function App() {
         switchingRef.current = true;
         sendMsg({ type: "detach", payload: {} });
       }
-      // Send cols=0, rows=0 — adopt the host's width, then send fitted rows
+      // Offer our fitted size to managed sessions; the resize policy decides
+      // whether it counts. tmux gets 0x0 so we adopt its width instead.
+      const fit = !id.startsWith("tmux:") && fitRef.current;
       sendMsg({
         type: "attach",
-        payload: { target: id, cols: 0, rows: 0 },
+        payload: {
+          target: id,
+          cols: fit ? fit.cols : 0,
+          rows: fit ? fit.rows : 0,
+          resumeFrom,
+        },
       });
       setDrawerOpen(false);
     },
     [sendMsg],
   );
 
+  const showNotification = useCallback(
+    (n: TerminalNotification) => {
+      if (Notification.permission !== "granted") return;
+      // The terminal already shows what happens in the session on screen
+      if (!document.hidden && n.sessionId === attachedIdRef.current) return;
+      let notification: Notification;
+      try {
+        notification = new Notification(
+          n.title || (n.kind === "bell" ? `Bell in ${n.sessionName}` : n.sessionName),
+          {
+            body: n.kind === "bell" ? undefined : n.text,
+            // One notification per session; a newer one replaces it
+            tag: n.sessionId,
+          },
+        );
+      } catch {
+        // "Illegal constructor": stop trying, and stop offering the Bell button
+        notificationsUnsupported = true;
+        setNotifyPermission(null);
+        return;
+      }
+      notification.onclick = () => {
+        window.focus();
+        if (n.sessionId !== attachedIdRef.current) attachTo(n.sessionId);
+        notification.close();
+      };
+    },
+    [attachTo],
+  );
+
+  const enableNotifications = useCallback(() => {
+    // Browsers only ask from a click
+    Notification.requestPermission().then(setNotifyPermission);
+  }, []);
+
   const handleMessage = useCallback(
     (msg: { type: string; payload: Record<string, unknown> }) => {
       switch (msg.type) {
@@ -105,7 +251,8 @@ export default function App() {
             const target = list.find((s) => s.id === reattach);
             if (target) {
               reattachRef.current = null;
-              attachTo(target.id);
+              resumingRef.current = target.id;
+              attachTo(target.id, offsetRef.current ?? undefined);
               break;
             }
             // Session gone — clear cached state
@@ -118,45 +265,127 @@ export default function App() {
           }
           break;
         }
-        case "session_created":
-        case "session_removed":
-          listSessions();
+        case "session_added":
+        case "session_updated": {
+          // Deltas from subscribe_sessions; either may race the initial list
+          const session = msg.payload.session as Session;
+          setSessions((prev) =>
+            prev.some((s) => s.id === session.id)
+              ? prev.map((s) => (s.id === session.id ? session : s))
+              : [...prev, session],
+          );
+          break;
+        }
+        case "session_removed": {
+          const id = msg.payload.id as string;
+          setSessions((prev) => prev.filter((s) => s.id !== id));
+          break;
+        }
+        case "session_renamed": {
+          // Renaming a tmux session changes its id as well as its name
+          const { id, newId, name } = msg.payload as {
+            id: string;
+            newId: string;
+            name: string;
+          };
+          setSessions((prev) =>
+            prev.map((s) => (s.id === id ? { ...s, id: newId, name } : s)),
+          );
+          if (attachedIdRef.current === id) {
+            attachedIdRef.current = newId;
+            setAttachedId(newId);
+          }
           break;
+        }
+        case "resize_policy_changed": {
+          const { id, policy } = msg.payload as { id: string; policy: ResizePolicy };
+          setSessions((prev) =>
+            prev.map((s) => (s.id === id ? { ...s, resizePolicy: policy } : s)),
+          );
+          break;
+        }
         case "attached": {
           const target = msg.payload.target as string;
-          const isReattach = reattachRef.current === target;
+          const isReattach = resumingRef.current === target;
+          const gap = msg.payload.gap === true;
           reattachRef.current = null;
+          resumingRef.current = null;
           switchingRef.current = false;
           wsAttachedRef.current = true;
           setAttachedId(target);
+          readOnlyRef.current = msg.payload.readOnly === true;
+          setReadOnly(readOnlyRef.current);
+          controlRef.current = {
+            clientId: msg.payload.clientId as string,
+            singleWriter: msg.payload.singleWriter === true,
+            controller: msg.payload.controller as string | null,
+          };
+          setControl(controlRef.current);
+          setControlRequests([]);
+          requestingRef.current = false;
+          setRequesting(false);
           // Adopt the host's column width
           const cols = msg.payload.cols as number;
           if (cols > 0) setHostCols(cols);
+          // The replay follows this message; anything buffered before it
+          // belongs to the previous session.
+          offsetRef.current = msg.payload.offset as number;
+          pendingDataRef.current = [];
           const term = termRef.current;
           if (term) {
-            if (!isReattach) term.clear();
+            // A resumed stream continues where the terminal left off
+            if (!isReattach || gap) term.reset();
             // Resize terminal immediately so incoming data renders at correct width
             if (cols > 0 && cols !== term.cols) {
               term.resize(cols, term.rows);
             }
-            // Flush buffered data (buffered during session switch)
-            const pending = pendingDataRef.current;
-            if (pending.length > 0) {
-              for (const chunk of pending) {
-                term.write(chunk);
-              }
-              pendingDataRef.current = [];
-            }
             term.focus();
           }
           break;
         }
+        case "resync": {
+          // We fell behind; a snapshot of the current screen follows
+          offsetRef.current = msg.payload.offset as number;
+          pendingDataRef.current = [];
+          termRef.current?.reset();
+          break;
+        }
         case "resized": {
-          // Host resized — adopt their new column width
+          // PTY resized — adopt its new column width
           const rCols = msg.payload.cols as number;
           if (rCols > 0) setHostCols(rCols);
           break;
         }
+        case "presence": {
+          const { id, clients } = msg.payload as { id: string; clients: PresenceClient[] };
+          setSessions((prev) =>
+            prev.map((s) =>
+              s.id === id ? { ...s, clients, attachedClients: clients.length } : s,
+            ),
+          );
+          break;
+        }
+        case "control_changed": {
+          const singleWriter = msg.payload.singleWriter === true;
+          const controller = msg.payload.controller as string | null;
+          controlRef.current = { ...controlRef.current, singleWriter, controller };
+          setControl(controlRef.current);
+          setControlRequests((prev) =>
+            singleWriter ? prev.filter((id) => id !== controller) : [],
+          );
+          requestingRef.current = false;
+          setRequesting(false);
+          break;
+        }
+        case "control_requested": {
+          const id = msg.payload.clientId as string;
+          setControlRequests((prev) => (prev.includes(id) ? prev : [...prev, id]));
+          break;
+        }
+        case "control_denied":
+          requestingRef.current = false;
+          setRequesting(false);
+          break;
         case "detached":
           wsAttachedRef.current = false;
           if (switchingRef.current) {
@@ -168,35 +397,47 @@ export default function App() {
           }
           listSessions();
           break;
+        case "commands":
+          // A reply for a session we have since left is stale
+          if (msg.payload.id === attachedIdRef.current) {
+            setCommands(msg.payload.commands as Command[]);
+          }
+          break;
+        case "notification":
+          if (notificationPermission() !== null) {
+            showNotification(msg.payload as unknown as TerminalNotification);
+          }
+          break;
         case "error":
           console.error("Server error:", msg.payload.message);
           break;
       }
     },
-    [attachTo, listSessions],
+    [attachTo, listSessions, showNotification],
   );
 
   const doConnect = useCallback(
-    (tok: string) => {
+    () => {
       const proto = location.protocol === "https:" ? "wss" : "ws";
-      const ws = new WebSocket(
-        `${proto}://${location.host}?token=${encodeURIComponent(tok)}`,
-      );
+      // The session cookie authenticates us; no token in the URL
+      const ws = new WebSocket(`${proto}://${location.host}`);
       ws.binaryType = "arraybuffer";
       wsRef.current = ws;
       setStatus("connecting");
 
       ws.addEventListener("open", () => {
         setStatus("connected");
-        sendMsg({ type: "list_sessions", payload: {} });
-        pollRef.current = setInterval(listSessions, 3000);
+        sendMsg({ type: "identify", payload: { name: displayNameRef.current, device: "web" } });
+        // The server pushes changes from here on; no need to poll
+        sendMsg({ type: "subscribe_sessions", payload: {} });
       });
 
       ws.addEventListener("message", (evt) => {
         if (evt.data instanceof ArrayBuffer) {
           const data = new Uint8Array(evt.data);
+          if (offsetRef.current !== null) offsetRef.current += data.byteLength;
           // During session switch, buffer data until the attached handler
-          // clears the terminal — otherwise term.clear() wipes it.
+          // resets the terminal for the new session.
           if (termRef.current && !switchingRef.current) {
             termRef.current.write(data);
           } else {
@@ -211,31 +452,42 @@ export default function App() {
         setStatus("disconnected");
         wsRef.current = null;
         wsAttachedRef.current = false;
-        if (pollRef.current) {
-          clearInterval(pollRef.current);
-          pollRef.current = null;
-        }
         // Remember what we were attached to so we can re-attach after reconnect
         if (attachedIdRef.current) {
           reattachRef.current = attachedIdRef.current;
         }
         // Keep sessions/attachedId/termSize cached — UI stays stable during brief disconnects
-        // Reconnect after 2s
-        setTimeout(() => {
-          if (tok) doConnect(tok);
-        }, 2000);
+        // Reconnect after 2s, unless the session cookie has run out meanwhile
+        const reconnect = () => {
+          openSession("")
+            .then((ok) => (ok ? doConnect() : setSignedOut(true)))
+            .catch(() => setTimeout(reconnect, 2000));
+        };
+        setTimeout(reconnect, 2000);
       });
 
       ws.addEventListener("error", () => {
         setStatus("error");
       });
     },
-    [sendMsg, listSessions, handleMessage],
+    [sendMsg, handleMessage],
   );
 
   // Auto-connect on mount
   useEffect(() => {
-    if (token) doConnect(token);
+    const start = () => {
+      openSession(token)
+        .then((ok) => {
+          if (token) clearHashToken(hashSessionId);
+          if (ok) doConnect();
+          else setSignedOut(true);
+        })
+        .catch(() => {
+          setStatus("error");
+          setTimeout(start, 2000);
+        });
+    };
+    start();
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Track visual viewport so the layout (and shortcut bar) stays above the iOS keyboard
@@ -257,13 +509,123 @@ export default function App() {
     };
   }, []);
 
+  const renameSession = useCallback(
+    (id: string, name: string) => {
+      sendMsg({ type: "rename_session", payload: { target: id, name } });
+    },
+    [sendMsg],
+  );
+
+  const killSession = useCallback(
+    (id: string) => {
+      sendMsg({ type: "kill_session", payload: { target: id } });
+    },
+    [sendMsg],
+  );
+
+  const setResizePolicy = useCallback(
+    (id: string, policy: ResizePolicy) => {
+      sendMsg({ type: "set_resize_policy", payload: { target: id, policy } });
+    },
+    [sendMsg],
+  );
+
+  const fetchCommands = useCallback(() => {
+    const id = attachedIdRef.current;
+    if (id && !id.startsWith("tmux:")) {
+      sendMsg({ type: "get_commands", payload: { target: id } });
+    }
+  }, [sendMsg]);
+
+  // Load the attached session's commands whenever the timeline shows
+  useEffect(() => {
+    setCommands(null);
+    if (timelineOpen) fetchCommands();
+  }, [timelineOpen, attachedId, fetchCommands]);
+
+  const jumpToCommand = useCallback((c: Command) => {
+    const term = termRef.current;
+    if (!term || c.linesBack === undefined) return;
+    // Count back from the cursor: it sits on the same line here as on the server
+    const buffer = term.buffer.active;
+    const line = buffer.baseY + buffer.cursorY - c.linesBack;
+    if (line >= 0) term.scrollToLine(line);
+  }, []);
+
+  const handleTermFit = useCallback(
+    (cols: number, rows: number) => {
+      const prev = fitRef.current;
+      if (prev && prev.cols === cols && prev.rows === rows) return;
+      fitRef.current = { cols, rows };
+      const id = attachedIdRef.current;
+      if (
+        wsAttachedRef.current &&
+        !readOnlyRef.current &&
+        id &&
+        !id.startsWith("tmux:")
+      ) {
+        sendMsg({ type: "resize", payload: { cols, rows } });
+      }
+    },
+    [sendMsg],
+  );
+
+  const requestControl = useCallback(() => {
+    if (requestingRef.current) return;
+    requestingRef.current = true;
+    setRequesting(true);
+    sendMsg({ type: "request_control", payload: {} });
+  }, [sendMsg]);
+
+  const answerControl = useCallback(
+    (clientId: string, grant: boolean) => {
+      sendMsg({
+        type: grant ? "grant_control" : "deny_control",
+        payload: { clientId },
+      });
+      setControlRequests((prev) => prev.filter((id) => id !== clientId));
+    },
+    [sendMsg],
+  );
+
+  const changeName = useCallback(
+    (name: string) => {
+      displayNameRef.current = name;
+      setDisplayName(name);
+      try {
+        localStorage.setItem(NAME_KEY, name);
+      } catch {
+        // private browsing; the name lasts for this page only
+      }
+      sendMsg({ type: "identify", payload: { name, device: "web" } });
+    },
+    [sendMsg],
+  );
+
+  const setSingleWriter = useCallback(
+    (enabled: boolean) => {
+      sendMsg({ type: "set_single_writer", payload: { enabled } });
+    },
+    [sendMsg],
+  );
+
   const handleTermData = useCallback(
     (data: string) => {
-      if (wsRef.current?.readyState === WebSocket.OPEN && wsAttachedRef.current) {
+      const ctl = controlRef.current;
+      if (ctl.singleWriter && ctl.controller !== ctl.clientId) {
+        // Someone else holds the keyboard; typing asks them for it
+        if (wsAttachedRef.current && !readOnlyRef.current) requestControl();
+        return;
+      }
+      if (
+        wsRef.current?.readyState === WebSocket.OPEN &&
+        wsAttachedRef.current &&
+        !readOnlyRef.current
+      ) {
         sendMsg({ type: "input", payload: { data } });
       }
     },
-    [sendMsg],
+    [sendMsg, requestControl],
   );
 
   const handleTermReady = useCallback(() => {
@@ -276,6 +638,10 @@ export default function App() {
     }
   }, []);
 
+  const attachedClients = sessions.find((s) => s.id === attachedId)?.clients;
+  const clientName = (clientId: string) =>
+    attachedClients?.find((c) => c.clientId === clientId)?.name ?? clientId.slice(0, 8);
+
   const StatusIcon = () => {
     if (status === "connecting")
       return <Loader2 size={14} className="animate-spin text-yellow-400" />;
@@ -292,7 +658,11 @@ export default function App() {
       <header className="flex items-center h-11 px-3 gap-3 shrink-0" style={{ background: "var(--bg-surface)", borderBottom: "1px solid var(--border)" }}>
         <button
           tabIndex={-1}
-          onClick={() => setDrawerOpen(!drawerOpen)}
+          onClick={() => {
+            // Activity times are not pushed as they change; refresh them on open
+            if (!drawerOpen) listSessions();
+            setDrawerOpen(!drawerOpen);
+          }}
           className="p-2.5 -m-1 rounded-md hover:bg-white/5 active:bg-white/10 transition-colors"
         >
           <Menu size={20} className="text-zinc-400" />
@@ -301,9 +671,95 @@ export default function App() {
           TerminalSync
         </span>
         <div className="flex-1" />
+        {readOnly && attachedId && (
+          <span className="flex items-center gap-1 text-[11px] text-zinc-500">
+            <Eye size={13} />
+            View only
+          </span>
+        )}
+        {control.singleWriter && attachedId && (
+          <span className="flex items-center gap-1.5 text-[11px] text-zinc-500">
+            <Keyboard size={13} />
+            {control.controller === control.clientId
+              ? "You have control"
+              : control.controller
+                ? `${clientName(control.controller)} has control`
+                : "Nobody has control"}
+            {!readOnly && control.controller !== control.clientId && (
+              <button
+                tabIndex={-1}
+                disabled={requesting}
+                onClick={requestControl}
+                className="px-1.5 py-0.5 rounded text-indigo-300 hover:bg-white/5 disabled:text-zinc-600 transition-colors"
+              >
+                {requesting ? "Requested" : "Request"}
+              </button>
+            )}
+          </span>
+        )}
+        {attachedId && !attachedId.startsWith("tmux:") && (
+          <button
+            tabIndex={-1}
+            onClick={() => setTimelineOpen(!timelineOpen)}
+            title="Command timeline"
+            className="p-2.5 -m-1 rounded-md hover:bg-white/5 active:bg-white/10 transition-colors"
+          >
+            <History size={15} className={timelineOpen ? "text-indigo-300" : "text-zinc-400"} />
+          </button>
+        )}
+        {notifyPermission === "default" && (
+          <button
+            tabIndex={-1}
+            onClick={enableNotifications}
+            title="Notify me when a session rings or asks for attention"
+            className="p-2.5 -m-1 rounded-md hover:bg-white/5 active:bg-white/10 transition-colors"
+          >
+            <Bell size={15} className="text-zinc-400" />
+          </button>
+        )}
         <StatusIcon />
       </header>
 
+      {signedOut && (
+        <div
+          className="flex items-center gap-2 h-9 px-3 shrink-0 text-xs text-zinc-300"
+          style={{ background: "var(--bg-surface)", borderBottom: "1px solid var(--border)" }}
+        >
+          <WifiOff size={13} className="text-red-400" />
+          <span className="flex-1 truncate">
+            Not signed in, or the link has expired. Scan a fresh QR code to connect.
+          </span>
+        </div>
+      )}
+
+      {/* Pending control requests, for the holder and the host */}
+      {controlRequests.map((id) => (
+        <div
+          key={id}
+          className="flex items-center gap-2 h-9 px-3 shrink-0 text-xs text-zinc-300"
+          style={{ background: "var(--bg-surface)", borderBottom: "1px solid var(--border)" }}
+        >
+          <Keyboard size={13} className="text-indigo-300" />
+          <span className="flex-1 truncate">
+            {clientName(id)} wants control
+          </span>
+          <button
+            tabIndex={-1}
+            onClick={() => answerControl(id, true)}
+            className="px-2 py-1 rounded-md text-emerald-400 hover:bg-white/5 transition-colors"
+          >
+            Grant
+          </button>
+          <button
+            tabIndex={-1}
+            onClick={() => answerControl(id, false)}
+            className="px-2 py-1 rounded-md text-zinc-500 hover:bg-white/5 transition-colors"
+          >
+            Deny
+          </button>
+        </div>
+      ))}
+
       {/* Drawer */}
       <Drawer
         open={drawerOpen}
@@ -311,8 +767,37 @@ export default function App() {
         sessions={sessions}
         attachedId={attachedId}
         onSelect={attachTo}
+        onRename={renameSession}
+        onKill={killSession}
+        onResizePolicy={setResizePolicy}
+        singleWriter={control.singleWriter}
+        onSingleWriter={setSingleWriter}
+        displayName={displayName}
+        onChangeName={changeName}
+        canManage={!readOnly}
+        onShowRecordings={() => {
+          setDrawerOpen(false);
+          setPlayerOpen(true);
+        }}
       />
 
+      {/* Command timeline for the attached session */}
+      <Timeline
+        open={timelineOpen && !!attachedId && !attachedId.startsWith("tmux:")}
+        onClose={() => setTimelineOpen(false)}
+        commands={commands}
+        onRefresh={() => {
+          setCommands(null);
+          fetchCommands();
+        }}
+        onJump={jumpToCommand}
+      />
+
+      {/* Recording player, layered over the live terminal so it stays attached */}
+      {playerOpen && (
+        <Player onClose={() => setPlayerOpen(false)} />
+      )}
+
       {/* Terminal */}
       <TerminalView
         attachedId={attachedId}
@@ -320,6 +805,8 @@ export default function App() {
         hostCols={hostCols}
         onData={handleTermData}
         onReady={handleTermReady}
+        onFit={handleTermFit}
+        readOnly={readOnly}
         connected={status === "connected"}
         sessionCount={sessions.length}
       />
@@ -1,5 +1,41 @@
-import type { Session } from "./App";
-import { TerminalSquare, X } from "lucide-react";
+import type { Session, ResizePolicy } from "./App";
+import {
+  TerminalSquare,
+  X,
+  Film,
+  Pencil,
+  Trash2,
+  Maximize2,
+  Keyboard,
+  UserRound,
+  Eye,
+} from "lucide-react";
+
+const POLICY_LABELS: Record<ResizePolicy, string> = {
+  host: "Host decides",
+  smallest: "Fit smallest screen",
+  largest: "Fit largest screen",
+  "last-writer": "Follow last typist",
+};
+
+/** `~/proj` for paths under a home directory, which the browser cannot look up. */
+function shortPath(path: string): string {
+  return path.replace(/^\/(?:home|Users)\/[^/]+(?=\/|$)|^\/root(?=\/|$)/, "~");
+}
+
+function timeAgo(ms: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - ms) / 1000));
+  if (seconds < 60) return "now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+/** "~/proj — npm", falling back to the short id when neither is known. */
+function sessionPlace(s: Session): string {
+  const place = [s.cwd && shortPath(s.cwd), s.command].filter(Boolean).join(" — ");
+  return place || s.id.slice(0, 8);
+}
 
 interface DrawerProps {
   open: boolean;
@@ -7,6 +43,18 @@ interface DrawerProps {
   sessions: Session[];
   attachedId: string | null;
   onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onKill: (id: string) => void;
+  onResizePolicy: (id: string, policy: ResizePolicy) => void;
+  /** Whether the attached session lets only one client type. */
+  singleWriter: boolean;
+  onSingleWriter: (enabled: boolean) => void;
+  /** How this browser appears to others attached to the same session. */
+  displayName: string;
+  onChangeName: (name: string) => void;
+  /** Hide rename/kill and session settings for connections that cannot manage sessions. */
+  canManage: boolean;
+  onShowRecordings: () => void;
 }
 
 export default function Drawer({
@@ -15,7 +63,17 @@ export default function Drawer({
   sessions,
   attachedId,
   onSelect,
+  onRename,
+  onKill,
+  onResizePolicy,
+  singleWriter,
+  onSingleWriter,
+  displayName,
+  onChangeName,
+  canManage,
+  onShowRecordings,
 }: DrawerProps) {
+  const attached = sessions.find((s) => s.id === attachedId);
   return (
     <>
       {/* Backdrop */}
@@ -59,37 +117,145 @@ export default function Drawer({
             sessions.map((s) => {
               const active = s.id === attachedId;
               return (
-                <button
+                <div
                   key={s.id}
-                  tabIndex={-1}
-                  onClick={() => onSelect(s.id)}
-                  className={`w-full flex items-center gap-3 px-4 py-2.5 text-left transition-colors ${
+                  className={`group flex items-center transition-colors ${
                     active
                       ? "bg-indigo-500/10 text-indigo-300"
                       : "text-zinc-400 hover:bg-white/3 hover:text-zinc-200"
                   }`}
                 >
-                  <TerminalSquare size={15} className="shrink-0" />
-                  <div className="min-w-0 flex-1">
-                    <div className="text-sm truncate">{s.name}</div>
-                    <div className="text-[10px] text-zinc-600 font-mono">
-                      {s.id.slice(0, 8)}
+                  <button
+                    tabIndex={-1}
+                    onClick={() => onSelect(s.id)}
+                    className="min-w-0 flex-1 flex items-center gap-3 pl-4 pr-2 py-2.5 text-left"
+                  >
+                    <TerminalSquare size={15} className="shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm truncate">{s.name}</div>
+                      <div
+                        className="flex gap-1.5 text-[10px] text-zinc-600 font-mono"
+                        title={`${s.cwd ?? s.id}\nStarted ${new Date(s.createdAt).toLocaleString()}`}
+                      >
+                        <span className="truncate">{sessionPlace(s)}</span>
+                        <span className="shrink-0">· {timeAgo(s.lastActivityAt)}</span>
+                      </div>
+                      {s.clients && s.clients.length > 0 && (
+                        <div className="flex flex-wrap gap-x-2 text-[10px] text-zinc-500">
+                          {s.clients.map((c) => (
+                            <span
+                              key={c.clientId}
+                              title={`${c.device}${c.readOnly ? ", view only" : ""}`}
+                              className="flex items-center gap-0.5 truncate"
+                            >
+                              {c.readOnly && <Eye size={9} className="shrink-0" />}
+                              {c.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <span
+                      className="w-1.5 h-1.5 rounded-full shrink-0"
+                      style={{
+                        background:
+                          s.status === "exited"
+                            ? "var(--red)"
+                            : "var(--green)",
+                      }}
+                    />
+                  </button>
+                  {canManage && (
+                    <div className="flex items-center pr-2 shrink-0">
+                      <button
+                        tabIndex={-1}
+                        title="Rename"
+                        onClick={() => {
+                          const name = window.prompt("Rename session", s.name);
+                          if (name && name.trim() && name.trim() !== s.name) {
+                            onRename(s.id, name.trim());
+                          }
+                        }}
+                        className="p-1.5 rounded-md text-zinc-600 hover:text-zinc-300 hover:bg-white/5 transition-colors"
+                      >
+                        <Pencil size={13} />
+                      </button>
+                      <button
+                        tabIndex={-1}
+                        title="Kill"
+                        onClick={() => {
+                          if (window.confirm(`Kill "${s.name}"? Its processes will be terminated.`)) {
+                            onKill(s.id);
+                          }
+                        }}
+                        className="p-1.5 rounded-md text-zinc-600 hover:text-red-400 hover:bg-white/5 transition-colors"
+                      >
+                        <Trash2 size={13} />
+                      </button>
                     </div>
-                  </div>
-                  <span
-                    className="w-1.5 h-1.5 rounded-full shrink-0"
-                    style={{
-                      background:
-                        s.status === "exited"
-                          ? "var(--red)"
-                          : "var(--green)",
-                    }}
-                  />
-                </button>
+                  )}
+                </div>
               );
             })
           )}
         </div>
+
+        {/* Footer */}
+        <div className="shrink-0 py-2" style={{ borderTop: "1px solid var(--border)" }}>
+          {canManage && attached?.source === "managed" && attached.resizePolicy && (
+            <label className="flex items-center gap-3 px-4 py-2.5 text-zinc-400">
+              <Maximize2 size={15} className="shrink-0" />
+              <select
+                tabIndex={-1}
+                value={attached.resizePolicy}
+                onChange={(e) =>
+                  onResizePolicy(attached.id, e.target.value as ResizePolicy)
+                }
+                className="min-w-0 flex-1 bg-transparent text-sm outline-none"
+              >
+                {(Object.keys(POLICY_LABELS) as ResizePolicy[]).map((p) => (
+                  <option key={p} value={p}>
+                    {POLICY_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {canManage && attached?.source === "managed" && (
+            <button
+              tabIndex={-1}
+              onClick={() => onSingleWriter(!singleWriter)}
+              className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-zinc-400 hover:bg-white/3 hover:text-zinc-200 transition-colors"
+            >
+              <Keyboard size={15} className="shrink-0" />
+              <span className="text-sm flex-1">One typist at a time</span>
+              <span className="text-[10px] uppercase tracking-wider text-zinc-600">
+                {singleWriter ? "On" : "Off"}
+              </span>
+            </button>
+          )}
+          <button
+            tabIndex={-1}
+            onClick={() => {
+              const name = window.prompt("Your name, as others see it", displayName);
+              if (name && name.trim() && name.trim() !== displayName) {
+                onChangeName(name.trim());
+              }
+            }}
+            className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-zinc-400 hover:bg-white/3 hover:text-zinc-200 transition-colors"
+          >
+            <UserRound size={15} className="shrink-0" />
+            <span className="text-sm truncate">{displayName}</span>
+          </button>
+          <button
+            tabIndex={-1}
+            onClick={onShowRecordings}
+            className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-zinc-400 hover:bg-white/3 hover:text-zinc-200 transition-colors"
+          >
+            <Film size={15} className="shrink-0" />
+            <span className="text-sm">Recordings</span>
+          </button>
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,300 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { Terminal as XTerm } from "@xterm/xterm";
+import TerminalView from "./Terminal";
+import { ArrowLeft, Play, Pause, Film, Loader2 } from "lucide-react";
+
+export interface Recording {
+  file: string;
+  sessionId: string;
+  size: number;
+  modifiedAt: string;
+}
+
+/** asciicast v2 event: [seconds, code, data] — "o" output, "r" resize ("COLSxROWS"). */
+type CastEvent = [number, string, string];
+
+interface Cast {
+  width: number;
+  height: number;
+  title?: string;
+  events: CastEvent[];
+  duration: number;
+}
+
+function parseCast(text: string): Cast {
+  const lines = text.split("\n").filter((l) => l.trim() !== "");
+  const header = JSON.parse(lines[0]);
+  const events: CastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // A live recording may end in a partially written line
+    }
+  }
+  return {
+    width: header.width,
+    height: header.height,
+    title: header.title,
+    events,
+    duration: events.length > 0 ? events[events.length - 1][0] : 0,
+  };
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+interface PlayerProps {
+  onClose: () => void;
+}
+
+export default function Player({ onClose }: PlayerProps) {
+  const [recordings, setRecordings] = useState<Recording[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [cast, setCast] = useState<Cast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+  const [hostCols, setHostCols] = useState<number | null>(null);
+  const termRef = useRef<XTerm | null>(null);
+  const castRef = useRef<Cast | null>(null);
+  // Index of the next event to write and the playback clock, in seconds
+  const indexRef = useRef(0);
+  const positionRef = useRef(0);
+
+  // The session cookie authenticates same-origin requests
+  const authFetch = useCallback(async (path: string) => {
+    const res = await fetch(path);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res;
+  }, []);
+
+  useEffect(() => {
+    authFetch("/api/recordings")
+      .then((res) => res.json())
+      .then((body) => setRecordings(body.recordings as Recording[]))
+      .catch((err) => setError(`Could not list recordings (${err.message})`));
+  }, [authFetch]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setCast(null);
+    setPlaying(false);
+    authFetch(`/api/recordings/${encodeURIComponent(selected)}`)
+      .then((res) => res.text())
+      .then((text) => setCast(parseCast(text)))
+      .catch((err) => setError(`Could not load recording (${err.message})`));
+  }, [selected, authFetch]);
+
+  const applyEvent = useCallback((term: XTerm, [, code, data]: CastEvent) => {
+    if (code === "o") {
+      term.write(data);
+    } else if (code === "r") {
+      const cols = parseInt(data.split("x")[0], 10);
+      if (cols > 0) {
+        setHostCols(cols);
+        term.resize(cols, term.rows);
+      }
+    }
+  }, []);
+
+  /** Rebuild the screen at `t` by replaying every event up to it. */
+  const seek = useCallback(
+    (t: number) => {
+      const term = termRef.current;
+      const c = castRef.current;
+      if (!term || !c) return;
+      term.reset();
+      setHostCols(c.width);
+      term.resize(c.width, term.rows);
+      let i = 0;
+      while (i < c.events.length && c.events[i][0] <= t) {
+        applyEvent(term, c.events[i]);
+        i++;
+      }
+      indexRef.current = i;
+      positionRef.current = t;
+      setPosition(t);
+    },
+    [applyEvent],
+  );
+
+  useEffect(() => {
+    castRef.current = cast;
+    if (cast) seek(0);
+  }, [cast, seek]);
+
+  // The terminal is created after the first recording is selected
+  const handleReady = useCallback(() => {
+    if (castRef.current) seek(positionRef.current);
+  }, [seek]);
+
+  const handleData = useCallback(() => {
+    // Playback is read-only
+  }, []);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const term = termRef.current;
+      const c = castRef.current;
+      if (!term || !c) return;
+      const t = Math.min(positionRef.current + ((now - last) / 1000) * speed, c.duration);
+      last = now;
+      while (indexRef.current < c.events.length && c.events[indexRef.current][0] <= t) {
+        applyEvent(term, c.events[indexRef.current]);
+        indexRef.current++;
+      }
+      positionRef.current = t;
+      setPosition(t);
+      if (indexRef.current >= c.events.length) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, applyEvent]);
+
+  const togglePlay = () => {
+    if (!cast) return;
+    // Restart from the beginning once the end was reached
+    if (!playing && indexRef.current >= cast.events.length) seek(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex flex-col" style={{ background: "var(--bg)" }}>
+      {/* Header */}
+      <header className="flex items-center h-11 px-3 gap-3 shrink-0" style={{ background: "var(--bg-surface)", borderBottom: "1px solid var(--border)" }}>
+        <button
+          tabIndex={-1}
+          onClick={selected ? () => setSelected(null) : onClose}
+          className="p-2.5 -m-1 rounded-md hover:bg-white/5 active:bg-white/10 transition-colors"
+        >
+          <ArrowLeft size={20} className="text-zinc-400" />
+        </button>
+        <span className="text-sm font-medium text-zinc-300 truncate">
+          {selected ? cast?.title || selected : "Recordings"}
+        </span>
+      </header>
+
+      {error && (
+        <p className="text-xs text-red-400 px-4 py-2 shrink-0">{error}</p>
+      )}
+
+      {!selected ? (
+        <div className="flex-1 overflow-y-auto py-2">
+          {recordings === null ? (
+            !error && <p className="text-xs text-zinc-600 px-4 py-6 text-center">Loading...</p>
+          ) : recordings.length === 0 ? (
+            <div className="text-center max-w-xs mx-auto px-6 py-10 space-y-3">
+              <p className="text-sm text-zinc-400">No recordings</p>
+              <p className="text-xs text-zinc-600 leading-relaxed">
+                Run <code className="px-1.5 py-0.5 rounded text-zinc-400" style={{ background: "var(--bg-elevated)" }}>terminalsync share --record</code> to
+                record a session.
+              </p>
+            </div>
+          ) : (
+            recordings.map((r) => (
+              <button
+                key={r.file}
+                tabIndex={-1}
+                onClick={() => {
+                  setError(null);
+                  setSelected(r.file);
+                }}
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-zinc-400 hover:bg-white/3 hover:text-zinc-200 transition-colors"
+              >
+                <Film size={15} className="shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm truncate">
+                    {new Date(r.modifiedAt).toLocaleString()}
+                  </div>
+                  <div className="text-[10px] text-zinc-600 font-mono">
+                    {r.sessionId.slice(0, 8)} · {formatSize(r.size)}
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      ) : (
+        <>
+          <TerminalView
+            attachedId={selected}
+            termRef={termRef}
+            hostCols={hostCols}
+            onData={handleData}
+            onReady={handleReady}
+            readOnly
+            connected
+            sessionCount={1}
+          />
+
+          {/* Playback controls */}
+          <div
+            className="flex items-center gap-3 px-3 py-2 shrink-0"
+            style={{ background: "var(--bg-surface)", borderTop: "1px solid var(--border)" }}
+          >
+            <button
+              tabIndex={-1}
+              onClick={togglePlay}
+              disabled={!cast}
+              className="flex items-center justify-center h-8 w-8 rounded-md text-zinc-300 hover:bg-white/5 active:bg-white/10 transition-colors disabled:opacity-40"
+              style={{ background: "var(--bg-elevated)" }}
+            >
+              {!cast ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : playing ? (
+                <Pause size={14} />
+              ) : (
+                <Play size={14} />
+              )}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={cast?.duration ?? 0}
+              step={0.1}
+              value={position}
+              disabled={!cast}
+              onChange={(e) => seek(parseFloat(e.target.value))}
+              className="flex-1 min-w-0 accent-indigo-500"
+            />
+            <span className="text-[11px] font-mono text-zinc-500 shrink-0">
+              {formatTime(position)} / {formatTime(cast?.duration ?? 0)}
+            </span>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(parseFloat(e.target.value))}
+              className="h-8 px-1.5 rounded-md text-[11px] text-zinc-300 outline-none"
+              style={{ background: "var(--bg-elevated)" }}
+            >
+              {SPEEDS.map((s) => (
+                <option key={s} value={s}>
+                  {s}x
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
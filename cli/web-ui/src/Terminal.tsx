@@ -9,6 +9,9 @@ interface TerminalViewProps {
   hostCols: number | null;
   onData: (data: string) => void;
   onReady: () => void;
+  /** Size that would fill the container, reported whenever it changes. */
+  onFit?: (cols: number, rows: number) => void;
+  readOnly: boolean;
   connected: boolean;
   sessionCount: number;
 }
@@ -19,6 +22,8 @@ export default function TerminalView({
   hostCols,
   onData,
   onReady,
+  onFit,
+  readOnly,
   connected,
   sessionCount,
 }: TerminalViewProps) {
@@ -28,6 +33,8 @@ export default function TerminalView({
   const hostColsRef = useRef<number | null>(hostCols);
   hostColsRef.current = hostCols; // sync immediately so fitRows() sees it
   const fitAddonRef = useRef<FitAddon | null>(null);
+  const onFitRef = useRef(onFit);
+  onFitRef.current = onFit;
 
   const showTerminal = attachedId !== null;
 
@@ -63,11 +70,13 @@ export default function TerminalView({
     termRef.current = term;
     term.onData(onData);
 
-    // Fit rows to container height, keep host's cols for width (horizontal scroll).
-    // Never send resize to the server — web client is read-only for terminal size.
+    // Fit rows to container height, keep the PTY's cols for width (horizontal
+    // scroll). The container's own size goes to onFit; the session's resize
+    // policy decides whether it changes the PTY.
     const fitRows = () => {
       const dims = fitAddon.proposeDimensions();
       if (!dims) return;
+      onFitRef.current?.(dims.cols, dims.rows);
       const cols = hostColsRef.current || dims.cols;
       const rows = dims.rows;
       if (cols !== term.cols || rows !== term.rows) {
@@ -239,7 +248,7 @@ export default function TerminalView({
         )}
       </div>
 
-      {showTerminal && (
+      {showTerminal && !readOnly && (
         <div
           className="flex items-center gap-1.5 px-2 py-1.5 overflow-x-auto shrink-0"
           style={{ background: "var(--bg-surface)", borderTop: "1px solid var(--border)" }}
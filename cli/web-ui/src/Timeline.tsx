@@ -0,0 +1,123 @@
+import { X, RefreshCw, Check, Loader2, CircleAlert } from "lucide-react";
+
+/** One command from a shell with OSC 133 integration, as the server reports it. */
+export interface Command {
+  id: number;
+  command: string;
+  cwd?: string;
+  startedAt: number;
+  finishedAt?: number;
+  exitCode?: number;
+  outputStart: number;
+  outputEnd?: number;
+  /** Lines between the prompt and the cursor when the list was fetched. */
+  linesBack?: number;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${(ms / 1000).toFixed(1)}s`;
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+}
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+interface TimelineProps {
+  open: boolean;
+  onClose: () => void;
+  /** Null while loading. */
+  commands: Command[] | null;
+  onRefresh: () => void;
+  /** Scroll the terminal to the command's prompt. */
+  onJump: (command: Command) => void;
+}
+
+export default function Timeline({ open, onClose, commands, onRefresh, onJump }: TimelineProps) {
+  return (
+    // No backdrop: the terminal stays visible so each jump can be seen
+    <div
+      className="fixed top-0 right-0 h-full w-80 max-w-[85vw] z-50 flex flex-col transition-transform duration-200 ease-out"
+      style={{
+        background: "var(--bg-surface)",
+        borderLeft: "1px solid var(--border)",
+        transform: open ? "translateX(0)" : "translateX(100%)",
+      }}
+    >
+      <div className="flex items-center justify-between h-11 px-4 shrink-0" style={{ borderBottom: "1px solid var(--border)" }}>
+        <span className="text-xs font-semibold uppercase tracking-wider text-zinc-500">
+          Commands
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            tabIndex={-1}
+            onClick={onRefresh}
+            className="p-1 rounded-md hover:bg-white/5 transition-colors"
+          >
+            <RefreshCw size={14} className="text-zinc-500" />
+          </button>
+          <button
+            tabIndex={-1}
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-white/5 transition-colors"
+          >
+            <X size={16} className="text-zinc-500" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {commands === null ? (
+          <p className="text-xs text-zinc-600 px-4 py-6 text-center">Loading...</p>
+        ) : commands.length === 0 ? (
+          <div className="text-center px-6 py-10 space-y-3">
+            <p className="text-sm text-zinc-400">No commands yet</p>
+            <p className="text-xs text-zinc-600 leading-relaxed">
+              Commands show up here once the shell marks them with OSC 133 shell
+              integration.
+            </p>
+          </div>
+        ) : (
+          // Newest first
+          [...commands].reverse().map((c) => {
+            const running = c.finishedAt === undefined;
+            const failed = !running && c.exitCode !== undefined && c.exitCode !== 0;
+            return (
+              <button
+                key={c.id}
+                tabIndex={-1}
+                disabled={c.linesBack === undefined}
+                onClick={() => onJump(c)}
+                title={c.cwd}
+                className="w-full flex items-start gap-2.5 px-4 py-2 text-left text-zinc-400 hover:bg-white/3 hover:text-zinc-200 disabled:hover:bg-transparent disabled:text-zinc-600 transition-colors"
+              >
+                <span className="mt-0.5 shrink-0">
+                  {running ? (
+                    <Loader2 size={13} className="animate-spin text-yellow-400" />
+                  ) : failed ? (
+                    <CircleAlert size={13} className="text-red-400" />
+                  ) : (
+                    <Check size={13} className="text-emerald-400" />
+                  )}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs font-mono truncate">
+                    {c.command || <span className="italic text-zinc-600">unknown command</span>}
+                  </div>
+                  <div className="flex gap-2 text-[10px] text-zinc-600">
+                    <span>{formatClock(c.startedAt)}</span>
+                    {!running && <span>{formatDuration(c.finishedAt! - c.startedAt)}</span>}
+                    {failed && <span className="text-red-400">exit {c.exitCode}</span>}
+                  </div>
+                </div>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}